@@ -12,19 +12,38 @@ import {
     validateGap,
     validateGridTemplate,
     validateZIndex,
+    validateOrder,
     validateGridTemplateAreas,
     validateItemPlacement,
+    validateBreakpointThresholds,
+    validateGridLineName,
+    validateColumnSpan,
+    validateAspectRatio,
     isEmpty
 } from "./utils/validationHelpers";
-import { BREAKPOINT_SIZES, BREAKPOINT_LABELS, BreakpointSizeType, EDITOR } from "./utils/constants";
+import {
+    BREAKPOINT_SIZES,
+    BREAKPOINT_LABELS,
+    BreakpointSizeType,
+    EDITOR,
+    ITEM_SIZE_PROPERTIES
+} from "./utils/constants";
 import {
     getResponsivePropertyKeys,
     forEachEnabledBreakpoint,
     hasBreakpointConfiguration,
     getItemResponsivePropertyKeys,
     forEachEnabledItemBreakpoint,
-    forEachBreakpoint
+    forEachBreakpoint,
+    getBreakpointsToProcess,
+    getResponsiveMode
 } from "./utils/breakpointHelpers";
+import { computeGridPlacement, getPlacedItem } from "./utils/gridPlacement";
+import { getDefinedLineNames, getItemOrder, getUniqueAreaNames, parseGridAreas } from "./utils/gridHelpers";
+import { applyLayoutPreset, getLayoutPreset } from "./utils/presetHelpers";
+import { applyColumnSystem, getColumnSystemCount } from "./utils/columnSystemHelpers";
+import { FLUID_PROPERTIES, getFluidBreakpoints, getFluidEndpointValue, getFluidRange } from "./utils/fluidHelpers";
+import { BREAKPOINT_CONFIGS, BreakpointConfig } from "./types/BreakpointTypes";
 
 /**
  * CSS Grid Editor Configuration
@@ -337,8 +356,8 @@ export function getProperties(values: CSSGridPreviewProps, defaultProperties: Pr
     // REMOVED the hiding of gridTemplateColumns and gridTemplateRows when useNamedAreas is true
     // These are still needed to define the grid structure
     if (!values.useNamedAreas) {
-        // When not using named areas, hide the areas property
-        hidePropertyIn(properties, values, "gridTemplateAreas");
+        // When not using named areas, hide the areas properties
+        hidePropertiesIn(properties, values, ["gridTemplateAreas", "dynamicAreas"]);
     }
 
     // 2. Grid spacing optimization - hide individual gaps if general gap is set
@@ -346,6 +365,22 @@ export function getProperties(values: CSSGridPreviewProps, defaultProperties: Pr
         hidePropertiesIn(properties, values, ["rowGap", "columnGap"] as Array<keyof CSSGridPreviewProps>);
     }
 
+    // The column system replaces the column templates
+    if (values.enableColumnSystem) {
+        hidePropertiesIn(properties, values, [
+            "gridTemplateColumns",
+            "dynamicColumns",
+            ...BREAKPOINT_SIZES.map(size => `${size}Columns` as keyof CSSGridPreviewProps)
+        ]);
+    } else {
+        hidePropertyIn(properties, values, "columnCount");
+    }
+
+    // Masonry row size only applies to the masonry layout
+    if (!values.enableMasonry) {
+        hidePropertyIn(properties, values, "masonryRowSize");
+    }
+
     // 3. Container breakpoint properties
     if (!values.enableBreakpoints) {
         // Hide all breakpoint-related properties using helper
@@ -358,8 +393,15 @@ export function getProperties(values: CSSGridPreviewProps, defaultProperties: Pr
             });
         });
 
+        breakpointProps.push("breakpointSource", "customBreakpoints", "styleStrategy", "fluidSizing");
+
         hidePropertiesIn(properties, values, breakpointProps);
     } else {
+        // Custom breakpoint widths are only used with the custom source
+        if (values.breakpointSource !== "custom") {
+            hidePropertyIn(properties, values, "customBreakpoints");
+        }
+
         // Hide detailed breakpoint properties if the breakpoint is not enabled
         forEachBreakpoint(values, (config, getProperty) => {
             const isEnabled = getProperty("Enabled");
@@ -389,8 +431,32 @@ export function getProperties(values: CSSGridPreviewProps, defaultProperties: Pr
         });
     }
 
-    // 4. Item-level conditional properties
-    if (values.items && values.items.length > 0) {
+    // 4. Item source - static item list or datasource template
+    if (values.itemsSource === "datasource") {
+        hidePropertyIn(properties, values, "items");
+    } else {
+        hidePropertiesIn(properties, values, [
+            "dataSource",
+            "dataContent",
+            "dataItemName",
+            "dataClass",
+            "dataVisible",
+            "dataRenderAs",
+            "dataPlacementType",
+            "dataGridArea",
+            "dataColumnStart",
+            "dataColumnEnd",
+            "dataRowStart",
+            "dataRowEnd",
+            "dataJustifySelf",
+            "dataAlignSelf",
+            "dataSubgridColumns",
+            "dataSubgridRows"
+        ]);
+    }
+
+    // Item-level conditional properties
+    if (values.itemsSource !== "datasource" && values.items && values.items.length > 0) {
         values.items.forEach((item, index) => {
             // Hide placement-specific properties based on placement type
             switch (item.placementType) {
@@ -439,6 +505,29 @@ export function getProperties(values: CSSGridPreviewProps, defaultProperties: Pr
                     break;
             }
 
+            // Spans and offsets only apply to the column system
+            if (!values.enableColumnSystem) {
+                const columnSystemProps = ["span", "offset"];
+                BREAKPOINT_SIZES.forEach(size => columnSystemProps.push(`${size}Span`, `${size}Offset`));
+                hideNestedPropertiesIn(
+                    properties,
+                    values,
+                    "items",
+                    index,
+                    columnSystemProps as Array<keyof ItemsPreviewType>
+                );
+            }
+
+            // Resize limits only apply to resizable editable layouts
+            if (!values.enableLayoutEditing || !values.enableItemResizing) {
+                hideNestedPropertiesIn(properties, values, "items", index, [
+                    "minColumnSpan",
+                    "maxColumnSpan",
+                    "minRowSpan",
+                    "maxRowSpan"
+                ] as Array<keyof ItemsPreviewType>);
+            }
+
             // Hide all responsive properties if not enabled for this item OR if container responsiveness is disabled
             if (!item.enableResponsive || !values.enableBreakpoints) {
                 const responsiveProps: Array<keyof ItemsPreviewType> = [];
@@ -534,18 +623,43 @@ export function getProperties(values: CSSGridPreviewProps, defaultProperties: Pr
         });
     }
 
-    // 5. Performance properties
+    // 5. Editable layout properties
+    if (!values.enableLayoutEditing) {
+        hidePropertiesIn(properties, values, ["enableItemResizing", "layoutAttribute", "onLayoutChange"]);
+    }
+
+    // 6. Performance properties
     if (!values.enableVirtualization) {
-        hidePropertyIn(properties, values, "virtualizeThreshold");
+        hidePropertiesIn(properties, values, [
+            "virtualizeThreshold",
+            "virtualizationMode",
+            "scrollParentSelector",
+            "placeholderAppearance",
+            "scrollRestoration",
+            "scrollStateKey",
+            "scrollStateAttribute"
+        ]);
+    } else {
+        if (values.virtualizationMode === "windowed") {
+            hidePropertyIn(properties, values, "placeholderAppearance");
+        } else if (values.scrollRestoration === "none") {
+            hidePropertyIn(properties, values, "scrollParentSelector");
+        }
+        if (values.scrollRestoration !== "session") {
+            hidePropertyIn(properties, values, "scrollStateKey");
+        }
+        if (values.scrollRestoration !== "attribute") {
+            hidePropertyIn(properties, values, "scrollStateAttribute");
+        }
     }
 
-    // 6. Debug properties - only show relevant ones
+    // 7. Debug properties - only show relevant ones
     const debugValues = values as ResponsiveContainerPreview;
     if (!debugValues.useNamedAreas) {
-        hidePropertyIn(properties, debugValues, "showGridAreas" as keyof ResponsiveContainerPreview);
+        hidePropertiesIn(properties, debugValues, ["showGridAreas", "showAreaEditor"]);
     }
 
-    // 7. Transform property groups into tabs for better organization
+    // 8. Transform property groups into tabs for better organization
     // This makes the property panel much more manageable
     transformGroupsIntoTabs(properties);
 
@@ -593,14 +707,285 @@ function getAllDefinedAreas(values: ResponsiveContainerPreview): Set<string> {
     return allAreas;
 }
 
+/**
+ * Start and end properties of an item, with the axis their lines belong to
+ */
+const ITEM_LINE_PROPERTIES: Array<{ suffix: string; label: string; axis: "columns" | "rows" }> = [
+    { suffix: "ColumnStart", label: "column start", axis: "columns" },
+    { suffix: "ColumnEnd", label: "column end", axis: "columns" },
+    { suffix: "RowStart", label: "row start", axis: "rows" },
+    { suffix: "RowEnd", label: "row end", axis: "rows" }
+];
+
+/**
+ * Get the line names items can reference
+ * Uses the breakpoint's templates when they are set, otherwise the base templates
+ *
+ * @param values - Widget property values
+ * @param size - Breakpoint to use, or undefined for the base templates
+ * @returns Column and row line names, including implicit area lines
+ */
+function getDefinedGridLines(
+    values: ResponsiveContainerPreview,
+    size?: BreakpointSizeType
+): { columns: Set<string>; rows: Set<string> } {
+    const getBreakpointValue = (property: string): string => {
+        if (!size || !values.enableBreakpoints || !values[`${size}Enabled` as keyof ResponsiveContainerPreview]) {
+            return "";
+        }
+        return (values[`${size}${property}` as keyof ResponsiveContainerPreview] as string | undefined) || "";
+    };
+
+    const columns = getBreakpointValue("Columns") || values.gridTemplateColumns;
+    const rows = getBreakpointValue("Rows") || values.gridTemplateRows;
+    const areas = values.useNamedAreas ? getBreakpointValue("Areas") || values.gridTemplateAreas : "";
+    const areaValidation = areas ? validateGridTemplateAreas(areas) : null;
+    const areaNames = areaValidation && areaValidation.valid ? getUniqueAreaNames(areaValidation.lines || null) : [];
+
+    return {
+        columns: getDefinedLineNames(columns, areaNames),
+        rows: getDefinedLineNames(rows, areaNames)
+    };
+}
+
+/**
+ * Warn about line names in an item's placement that the active templates do not define
+ *
+ * @param item - Item to check
+ * @param index - Position of the item
+ * @param values - Widget property values
+ * @param size - Breakpoint of the placement, or undefined for the base placement
+ * @returns Warnings for the item's start and end properties
+ */
+function checkItemLineNames(
+    item: ResponsiveItemPreview,
+    index: number,
+    values: ResponsiveContainerPreview,
+    size?: BreakpointSizeType
+): Problem[] {
+    const getKey = (suffix: string): keyof ResponsiveItemPreview =>
+        (size
+            ? `${size}${suffix}`
+            : `${suffix.charAt(0).toLowerCase()}${suffix.substring(1)}`) as keyof ResponsiveItemPreview;
+
+    const placementType = item[getKey("PlacementType")] as string | undefined;
+    if (placementType !== "coordinates" && placementType !== "span") {
+        return [];
+    }
+
+    const lines = getDefinedGridLines(values, size);
+    const context = size ? `Item ${index + 1} ${BREAKPOINT_LABELS[size]}` : `Item ${index + 1}`;
+    const problems: Problem[] = [];
+
+    ITEM_LINE_PROPERTIES.forEach(({ suffix, label, axis }) => {
+        const key = getKey(suffix);
+        const validation = validateGridLineName(item[key] as string | undefined, lines[axis], `${context} ${label}`);
+        if (validation.warning) {
+            problems.push({
+                property: `items/${index}/${String(key)}`,
+                severity: "warning",
+                message: validation.warning
+            });
+        }
+    });
+
+    return problems;
+}
+
+/**
+ * Check an item's column system spans against the number of columns
+ *
+ * @param item - Item to check
+ * @param index - Position of the item
+ * @param values - Widget property values
+ * @returns Problems for the base span and the spans of the item's enabled breakpoints
+ */
+function checkItemColumnSpans(
+    item: ResponsiveItemPreview,
+    index: number,
+    values: ResponsiveContainerPreview
+): Problem[] {
+    const columnCount = getColumnSystemCount(values.columnCount);
+    const problems: Problem[] = [];
+
+    const checkSpan = (spanKey: string, offsetKey: string, context: string): void => {
+        const validation = validateColumnSpan(
+            item[spanKey as keyof ResponsiveItemPreview] as number | null,
+            item[offsetKey as keyof ResponsiveItemPreview] as number | null,
+            columnCount,
+            context
+        );
+        if (validation.error) {
+            problems.push({ property: `items/${index}/${spanKey}`, severity: "error", message: validation.error });
+        } else if (validation.warning) {
+            problems.push({
+                property: `items/${index}/${offsetKey}`,
+                severity: "warning",
+                message: validation.warning
+            });
+        }
+    };
+
+    checkSpan("span", "offset", `Item ${index + 1}`);
+
+    if (item.enableResponsive && values.enableBreakpoints) {
+        BREAKPOINT_SIZES.forEach((size: BreakpointSizeType) => {
+            if (item[`${size}Enabled` as keyof ResponsiveItemPreview]) {
+                checkSpan(`${size}Span`, `${size}Offset`, `Item ${index + 1} ${BREAKPOINT_LABELS[size]}`);
+            }
+        });
+    }
+
+    return problems;
+}
+
+/**
+ * Check that the selected layout preset can take effect
+ * The preset fills in empty properties only, so a base template that is set, or named
+ * areas and breakpoints that are off, keep parts of it from being used
+ *
+ * @param values - Widget property values, before the preset is applied
+ * @returns Warnings for each part of the preset that is not used
+ */
+function checkLayoutPreset(values: ResponsiveContainerPreview): Problem[] {
+    const problems: Problem[] = [];
+    const preset = getLayoutPreset(values.layoutPreset);
+    if (!preset) {
+        return problems;
+    }
+
+    const templates: Array<[keyof CSSGridPreviewProps, string, string | undefined]> = [
+        ["gridTemplateColumns", "Grid Template Columns", preset.base.columns],
+        ["gridTemplateRows", "Grid Template Rows", preset.base.rows]
+    ];
+    templates.forEach(([property, caption, presetValue]) => {
+        const value = values[property] as string | undefined;
+        if (presetValue && !isEmpty(value) && value!.trim() !== presetValue) {
+            problems.push({
+                property,
+                severity: "warning",
+                message: `${caption} is set, so the ${preset.caption} preset's value "${presetValue}" is not used. Clear it to use the preset.`
+            });
+        }
+    });
+
+    if (preset.base.areas && !values.useNamedAreas) {
+        problems.push({
+            property: "useNamedAreas",
+            severity: "warning",
+            message: `The ${preset.caption} preset places items in named areas. Turn on "Use Named Areas" to use them.`
+        });
+    }
+
+    const presetBreakpoints = Object.keys(preset.breakpoints) as BreakpointSizeType[];
+    if (presetBreakpoints.length > 0 && !values.enableBreakpoints) {
+        problems.push({
+            property: "enableBreakpoints",
+            severity: "warning",
+            message: `The ${preset.caption} preset adapts to smaller screens. Turn on "Enable Breakpoints" to use its breakpoint layouts.`
+        });
+    } else if (values.enableBreakpoints) {
+        presetBreakpoints.forEach(size => {
+            if (!values[`${size}Enabled` as keyof ResponsiveContainerPreview]) {
+                problems.push({
+                    property: `${size}Enabled`,
+                    severity: "warning",
+                    message: `${BREAKPOINT_LABELS[size]}: The ${preset.caption} preset has a layout for this breakpoint. Enable the breakpoint to use it.`
+                });
+            }
+        });
+    }
+
+    return problems;
+}
+
+/**
+ * Find the items whose order moves them away from their position in the list
+ * Checks the base layout and each enabled breakpoint, resolving orders as the runtime does
+ *
+ * @param items - Static items
+ * @param values - Widget property values
+ * @returns Indices of the items shown out of source order
+ */
+function getReorderedItems(items: ResponsiveItemPreview[], values: ResponsiveContainerPreview): Set<number> {
+    const reordered = new Set<number>();
+    const checkOrder = (breakpoints: BreakpointConfig[]): void => {
+        items
+            .map((item, index) => ({ index, order: getItemOrder(item, breakpoints) }))
+            .sort((a, b) => a.order - b.order || a.index - b.index)
+            .forEach(({ index }, position) => {
+                if (index !== position) {
+                    reordered.add(index);
+                }
+            });
+    };
+
+    checkOrder([]);
+    if (values.enableBreakpoints) {
+        const mode = getResponsiveMode(values.responsiveMode);
+        BREAKPOINT_CONFIGS.forEach(config => {
+            if (values[`${config.size}Enabled` as keyof ResponsiveContainerPreview]) {
+                checkOrder(getBreakpointsToProcess(mode, config.minWidth, values, BREAKPOINT_CONFIGS));
+            }
+        });
+    }
+    return reordered;
+}
+
+/**
+ * Check an item's aspect ratio and min/max sizes
+ *
+ * @param item - Item to check
+ * @param index - Position of the item
+ * @param values - Widget property values
+ * @returns Problems for the base values and the values of the item's enabled breakpoints
+ */
+function checkItemSizes(item: ResponsiveItemPreview, index: number, values: ResponsiveContainerPreview): Problem[] {
+    const problems: Problem[] = [];
+
+    const checkSizes = (getKey: (suffix: string, property: string) => string, context: string): void => {
+        ITEM_SIZE_PROPERTIES.forEach(({ suffix, property, label }) => {
+            const key = getKey(suffix, property);
+            const value = item[key as keyof ResponsiveItemPreview] as string | undefined;
+            const validation =
+                suffix === "AspectRatio"
+                    ? validateAspectRatio(value, `${context} ${label}`)
+                    : validateCssDimension(value, `${context} ${label}`, false);
+            if (!validation.isValid) {
+                problems.push({
+                    property: `items/${index}/${key}`,
+                    severity: validation.severity || "error",
+                    message: validation.error || ""
+                });
+            } else if (validation.warning) {
+                problems.push({ property: `items/${index}/${key}`, severity: "warning", message: validation.warning });
+            }
+        });
+    };
+
+    checkSizes((_suffix, property) => property, `Item ${index + 1}`);
+
+    if (item.enableResponsive && values.enableBreakpoints) {
+        BREAKPOINT_SIZES.forEach((size: BreakpointSizeType) => {
+            if (item[`${size}Enabled` as keyof ResponsiveItemPreview]) {
+                checkSizes(suffix => `${size}${suffix}`, `Item ${index + 1} ${BREAKPOINT_LABELS[size]}`);
+            }
+        });
+    }
+
+    return problems;
+}
+
 /**
  * Validates the CSS Grid configuration
  *
  * @param values - Widget property values
  * @returns Array of validation errors and warnings
  */
-export const check: CheckFunction = values => {
+export const check: CheckFunction = widgetValues => {
     const errors: Problem[] = [];
+    // Validate the layout as rendered, with the preset's values and the column system filled in
+    const values = applyColumnSystem(applyLayoutPreset(widgetValues));
 
     // Override push to log all errors
     const originalPush = errors.push.bind(errors);
@@ -633,11 +1018,18 @@ export const check: CheckFunction = values => {
 
     const containerValues = values as ResponsiveContainerPreview;
 
+    // Static item settings are ignored (and hidden) in datasource mode
+    const isDataSourceMode = values.itemsSource === "datasource";
+    const staticItems = isDataSourceMode ? [] : values.items;
+
+    // Report the parts of the layout preset that are not used
+    checkLayoutPreset(widgetValues as ResponsiveContainerPreview).forEach(problem => errors.push(problem));
+
     // Get all defined areas across all breakpoints
     const allDefinedAreas = getAllDefinedAreas(containerValues);
 
     // Check for multiple main elements
-    const mainElements = values.items.filter(item => {
+    const mainElements = staticItems.filter(item => {
         const itemWithRenderAs = item as ItemsPreviewType & { renderAs?: RenderAsType };
 
         // Check explicit main
@@ -800,7 +1192,7 @@ export const check: CheckFunction = values => {
     }
 
     // 4. Accessibility warning for complex grids without ARIA labels
-    if (values.items.length > 1 && !values.ariaLabel && !values.ariaLabelledBy) {
+    if ((isDataSourceMode || staticItems.length > 1) && !values.ariaLabel && !values.ariaLabelledBy) {
         errors.push({
             property: "ariaLabel",
             severity: "warning",
@@ -809,7 +1201,7 @@ export const check: CheckFunction = values => {
     }
 
     // 5. Mixed placement type warnings for items
-    values.items?.forEach((item, index) => {
+    staticItems.forEach((item, index) => {
         if (item.placementType === "area" && (item.columnStart || item.rowStart || item.columnEnd || item.rowEnd)) {
             errors.push({
                 property: `items/${index}/placementType`,
@@ -822,31 +1214,50 @@ export const check: CheckFunction = values => {
     });
 
     // Validate base container dimension properties
-    const baseGapValidation = validateGap(values.gap, false);
+    const useGapTokens = values.gapMode === "tokens";
+    const baseGapValidation = validateGap(values.gap, false, useGapTokens);
     if (!baseGapValidation.isValid) {
         errors.push({
             property: "gap",
             severity: baseGapValidation.severity || "error",
             message: baseGapValidation.error || ""
         });
+    } else if (baseGapValidation.warning) {
+        errors.push({
+            property: "gap",
+            severity: "warning",
+            message: baseGapValidation.warning
+        });
     }
 
-    const baseRowGapValidation = validateGap(values.rowGap, false);
+    const baseRowGapValidation = validateGap(values.rowGap, false, useGapTokens);
     if (!baseRowGapValidation.isValid) {
         errors.push({
             property: "rowGap",
             severity: baseRowGapValidation.severity || "error",
             message: baseRowGapValidation.error || ""
         });
+    } else if (baseRowGapValidation.warning) {
+        errors.push({
+            property: "rowGap",
+            severity: "warning",
+            message: baseRowGapValidation.warning
+        });
     }
 
-    const baseColumnGapValidation = validateGap(values.columnGap, false);
+    const baseColumnGapValidation = validateGap(values.columnGap, false, useGapTokens);
     if (!baseColumnGapValidation.isValid) {
         errors.push({
             property: "columnGap",
             severity: baseColumnGapValidation.severity || "error",
             message: baseColumnGapValidation.error || ""
         });
+    } else if (baseColumnGapValidation.warning) {
+        errors.push({
+            property: "columnGap",
+            severity: "warning",
+            message: baseColumnGapValidation.warning
+        });
     }
 
     // Validate base dimension properties
@@ -932,35 +1343,53 @@ export const check: CheckFunction = values => {
 
             // Validate gaps only if provided
             if (!isEmpty(gap)) {
-                const validation = validateGap(gap, false);
+                const validation = validateGap(gap, false, useGapTokens);
                 if (!validation.isValid) {
                     errors.push({
                         property: `${config.size}Gap` as keyof ResponsiveContainerPreview,
                         severity: validation.severity || "error",
                         message: `${config.label}: ${validation.error}`
                     });
+                } else if (validation.warning) {
+                    errors.push({
+                        property: `${config.size}Gap` as keyof ResponsiveContainerPreview,
+                        severity: "warning",
+                        message: `${config.label}: ${validation.warning}`
+                    });
                 }
             }
 
             if (!isEmpty(rowGap)) {
-                const validation = validateGap(rowGap, false);
+                const validation = validateGap(rowGap, false, useGapTokens);
                 if (!validation.isValid) {
                     errors.push({
                         property: `${config.size}RowGap` as keyof ResponsiveContainerPreview,
                         severity: validation.severity || "error",
                         message: `${config.label} Row Gap: ${validation.error}`
                     });
+                } else if (validation.warning) {
+                    errors.push({
+                        property: `${config.size}RowGap` as keyof ResponsiveContainerPreview,
+                        severity: "warning",
+                        message: `${config.label} Row Gap: ${validation.warning}`
+                    });
                 }
             }
 
             if (!isEmpty(columnGap)) {
-                const validation = validateGap(columnGap, false);
+                const validation = validateGap(columnGap, false, useGapTokens);
                 if (!validation.isValid) {
                     errors.push({
                         property: `${config.size}ColumnGap` as keyof ResponsiveContainerPreview,
                         severity: validation.severity || "error",
                         message: `${config.label} Column Gap: ${validation.error}`
                     });
+                } else if (validation.warning) {
+                    errors.push({
+                        property: `${config.size}ColumnGap` as keyof ResponsiveContainerPreview,
+                        severity: "warning",
+                        message: `${config.label} Column Gap: ${validation.warning}`
+                    });
                 }
             }
 
@@ -991,6 +1420,71 @@ export const check: CheckFunction = values => {
             });
         }
 
+        // Container queries measure the grid itself, which a scoped style sheet cannot do
+        if (
+            values.styleStrategy === "stylesheet" &&
+            (values.responsiveMode === "containerExact" || values.responsiveMode === "containerCascade")
+        ) {
+            errors.push({
+                property: "styleStrategy",
+                severity: "warning",
+                message:
+                    "Scoped stylesheet rendering is not available with container query modes. CSS variables are used instead."
+            });
+        }
+
+        // Validate custom breakpoint widths
+        if (values.breakpointSource === "custom") {
+            const thresholdsValidation = validateBreakpointThresholds(values.customBreakpoints);
+            if (!thresholdsValidation.isValid || thresholdsValidation.info) {
+                errors.push({
+                    property: "customBreakpoints",
+                    severity: thresholdsValidation.severity || "error",
+                    message: thresholdsValidation.error || thresholdsValidation.info || ""
+                });
+            }
+        }
+
+        // Fluid sizing interpolates between the smallest and largest enabled breakpoint
+        if (values.fluidSizing) {
+            const fluidBreakpoints = getFluidBreakpoints(containerValues, BREAKPOINT_CONFIGS);
+            if (!fluidBreakpoints) {
+                errors.push({
+                    property: "fluidSizing",
+                    severity: "warning",
+                    message: "Fluid sizing needs at least two enabled breakpoints to interpolate between."
+                });
+            } else {
+                const { smallest, largest } = fluidBreakpoints;
+                const isContainerMode =
+                    values.responsiveMode === "containerExact" || values.responsiveMode === "containerCascade";
+                FLUID_PROPERTIES.forEach(({ suffix, property, label, isWidth }) => {
+                    const start = getFluidEndpointValue(containerValues, smallest.size, suffix, property);
+                    const end = getFluidEndpointValue(containerValues, largest.size, suffix, property);
+                    if (isWidth && isContainerMode) {
+                        if (start !== end) {
+                            errors.push({
+                                property: "fluidSizing",
+                                severity: "warning",
+                                message: `${label} is not fluid in container modes, as the grid's own width selects the breakpoint. It changes at the breakpoints instead.`
+                            });
+                        }
+                    } else if (
+                        start &&
+                        end &&
+                        start !== end &&
+                        !getFluidRange(containerValues, BREAKPOINT_CONFIGS, suffix, property)
+                    ) {
+                        errors.push({
+                            property: "fluidSizing",
+                            severity: "warning",
+                            message: `${label} cannot be fluid: '${start}' (${smallest.size.toUpperCase()}) and '${end}' (${largest.size.toUpperCase()}) must be px or rem lengths in the same unit. It changes at the breakpoints instead.`
+                        });
+                    }
+                });
+            }
+        }
+
         // Enhanced validation: Check for enabled breakpoints with no meaningful configuration
         forEachEnabledBreakpoint(containerValues, config => {
             if (!hasBreakpointConfiguration(containerValues, config.size)) {
@@ -1004,7 +1498,8 @@ export const check: CheckFunction = values => {
     }
 
     // Validate items
-    values.items?.forEach((item, index) => {
+    const reorderedItems = getReorderedItems(staticItems as ResponsiveItemPreview[], containerValues);
+    staticItems.forEach((item, index) => {
         const responsiveItem = item as ResponsiveItemPreview;
 
         // Validate item placement
@@ -1078,6 +1573,22 @@ export const check: CheckFunction = values => {
             }
         }
 
+        // Validate order
+        const orderValidation = validateOrder(responsiveItem.order);
+        if (!orderValidation.isValid) {
+            errors.push({
+                property: `items/${index}/order`,
+                severity: "error",
+                message: `Item ${index + 1}: ${orderValidation.error}`
+            });
+        }
+
+        // Validate aspect ratio and min/max sizes
+        checkItemSizes(responsiveItem, index, containerValues).forEach(problem => errors.push(problem));
+
+        // Validate line names against the base templates
+        checkItemLineNames(responsiveItem, index, containerValues).forEach(problem => errors.push(problem));
+
         // Validate responsive settings for items
         if (responsiveItem.enableResponsive) {
             let hasAnyBreakpoint = false;
@@ -1179,6 +1690,28 @@ export const check: CheckFunction = values => {
                             }
                         }
                     }
+
+                    // Validate line names against this breakpoint's templates
+                    checkItemLineNames(responsiveItem, index, containerValues, size).forEach(problem =>
+                        errors.push(problem)
+                    );
+
+                    // Validate responsive order (only if provided)
+                    const orderKey = `${size}Order` as keyof ResponsiveItemPreview;
+                    const orderValue = responsiveItem[orderKey] as string | undefined;
+
+                    if (!isEmpty(orderValue)) {
+                        const breakpointOrderValidation = validateOrder(orderValue);
+                        if (!breakpointOrderValidation.isValid) {
+                            errors.push({
+                                property: `items/${index}/${orderKey}`,
+                                severity: "error",
+                                message: `Item ${index + 1} ${BREAKPOINT_LABELS[size]}: ${
+                                    breakpointOrderValidation.error
+                                }`
+                            });
+                        }
+                    }
                 }
             });
 
@@ -1192,6 +1725,16 @@ export const check: CheckFunction = values => {
                 });
             }
         }
+
+        if (reorderedItems.has(index) && values.itemOrderMode !== "dom") {
+            errors.push({
+                property: `items/${index}/order`,
+                severity: "warning",
+                message: `Item ${
+                    index + 1
+                }: Order only changes the visual position, so screen readers and the Tab key follow a different sequence. Set "Item Order" to "Reorder DOM" to keep them in sync.`
+            });
+        }
     });
 
     // ============================================================================
@@ -1199,17 +1742,17 @@ export const check: CheckFunction = values => {
     // ============================================================================
 
     // Check for large grids that should use virtualization
-    if (values.items.length >= 500 && !values.enableVirtualization) {
+    if (staticItems.length >= 500 && !values.enableVirtualization) {
         errors.push({
             property: "enableVirtualization",
             severity: "warning",
-            message: `Grid has ${values.items.length} items. Consider enabling virtualization for grids with 500+ items to improve performance.`
+            message: `Grid has ${staticItems.length} items. Consider enabling virtualization for grids with 500+ items to improve performance.`
         });
-    } else if (values.items.length >= 100 && values.items.length < 500 && !values.enableVirtualization) {
+    } else if (staticItems.length >= 100 && staticItems.length < 500 && !values.enableVirtualization) {
         errors.push({
             property: "enableVirtualization",
             severity: "warning",
-            message: `Grid has ${values.items.length} items. Virtualization may improve performance for large datasets.`
+            message: `Grid has ${staticItems.length} items. Virtualization may improve performance for large datasets.`
         });
     }
 
@@ -1237,8 +1780,228 @@ export const check: CheckFunction = values => {
         });
     }
 
+    // Session scroll restoration needs a key that is unique across pages
+    if (values.enableVirtualization && values.scrollRestoration === "session" && isEmpty(values.scrollStateKey)) {
+        errors.push({
+            property: "scrollStateKey",
+            severity: "error",
+            message: "Scroll position is restored from session storage but no scroll state key is set."
+        });
+    }
+
+    // Attribute scroll restoration needs an attribute to store the position
+    if (values.enableVirtualization && values.scrollRestoration === "attribute" && !values.scrollStateAttribute) {
+        errors.push({
+            property: "scrollStateAttribute",
+            severity: "error",
+            message: "Scroll position is restored from an attribute but no scroll state attribute is selected."
+        });
+    }
+
+    // Windowed loading assumes every item fills one auto-placed cell in rows of equal height
+    if (values.enableVirtualization && values.virtualizationMode === "windowed") {
+        if (values.enableMasonry) {
+            errors.push({
+                property: "virtualizationMode",
+                severity: "warning",
+                message: "Masonry rows depend on every item's height, so masonry grids use placeholder loading instead."
+            });
+        }
+
+        const placedItems = staticItems.filter(item => item.placementType !== "auto");
+        if (placedItems.length > 0 || values.enableLayoutEditing) {
+            errors.push({
+                property: "virtualizationMode",
+                severity: "warning",
+                message:
+                    "Windowed loading expects every item to be auto-placed in a single cell. Items with area, coordinate or span placement, or an editable layout, will end up in the wrong rows."
+            });
+        }
+
+        if (isEmpty(values.autoRows) || values.autoRows.trim() === "auto") {
+            errors.push({
+                property: "autoRows",
+                severity: "warning",
+                message:
+                    "Windowed loading needs rows of equal height. Set Auto Rows to a fixed height (e.g. 200px) so rows that are not rendered are reserved correctly."
+            });
+        }
+    }
+
+    // Datasource mode requires a datasource to render anything
+    if (isDataSourceMode) {
+        if (!values.dataSource) {
+            errors.push({
+                property: "dataSource",
+                severity: "error",
+                message: 'Items Source is set to "Data Source" but no data source is selected.'
+            });
+        }
+
+        if (!values.dataContent || values.dataContent.widgetCount === 0) {
+            errors.push({
+                property: "dataContent",
+                severity: "warning",
+                message: "The item template is empty. Add widgets to render content for each object."
+            });
+        }
+
+        if (values.dataRenderAs === "main") {
+            errors.push({
+                property: "dataRenderAs",
+                severity: "warning",
+                message:
+                    "Data source items render as <main> for every object. Only one <main> element should exist per page for proper accessibility."
+            });
+        }
+    }
+
+    // Masonry decides the rows itself
+    if (values.enableMasonry) {
+        if (values.masonryRowSize !== null && values.masonryRowSize < 1) {
+            errors.push({
+                property: "masonryRowSize",
+                severity: "error",
+                message: "Masonry Row Size must be at least 1 pixel."
+            });
+        }
+
+        const rowPlacedItems = staticItems.filter(
+            item =>
+                item.placementType === "area" ||
+                (item.placementType === "coordinates" && !isEmpty(item.rowStart) && item.rowStart !== "auto") ||
+                (item.placementType === "span" && !isEmpty(item.rowStart) && item.rowStart !== "auto")
+        );
+        if (rowPlacedItems.length > 0) {
+            errors.push({
+                property: "enableMasonry",
+                severity: "warning",
+                message: `${rowPlacedItems.length} item(s) are placed by area or row. Masonry layout ignores row placement; only their columns are kept.`
+            });
+        }
+
+        if (values.enableLayoutEditing) {
+            errors.push({
+                property: "enableMasonry",
+                severity: "warning",
+                message:
+                    "Masonry layout decides the rows itself, so items moved in the editable layout only keep their column."
+            });
+        }
+    }
+
+    // Column system spans must fit the columns
+    if (values.enableColumnSystem) {
+        if (values.columnCount !== null && values.columnCount < 1) {
+            errors.push({
+                property: "columnCount",
+                severity: "error",
+                message: "Column Count must be at least 1."
+            });
+        }
+
+        staticItems.forEach((item, index) =>
+            checkItemColumnSpans(item as ResponsiveItemPreview, index, containerValues).forEach(problem =>
+                errors.push(problem)
+            )
+        );
+    }
+
+    // Subgrid items pass on the tracks they span, so they need more than one
+    if (staticItems.some(item => item.subgridColumns || item.subgridRows)) {
+        const basePlacement = computeGridPlacement({
+            columns: values.gridTemplateColumns || "1fr",
+            rows: values.gridTemplateRows || "auto",
+            areas: values.useNamedAreas ? values.gridTemplateAreas : undefined,
+            autoFlow: values.autoFlow,
+            items: staticItems.map((item, index) => ({
+                index,
+                placement: {
+                    placementType: item.placementType,
+                    gridArea: item.gridArea,
+                    columnStart: item.columnStart,
+                    columnEnd: item.columnEnd,
+                    rowStart: item.rowStart,
+                    rowEnd: item.rowEnd
+                }
+            }))
+        });
+
+        staticItems.forEach((item, index) => {
+            const placed = getPlacedItem(basePlacement, index);
+            if (!placed) {
+                return;
+            }
+
+            if (item.subgridColumns && placed.columnSpan < 2) {
+                errors.push({
+                    property: `items/${index}/subgridColumns`,
+                    severity: "warning",
+                    message: `Item ${
+                        index + 1
+                    }: Subgrid Columns spans only one column, so a nested grid gets a single column. Give the item a column span or a wider area.`
+                });
+            }
+            if (item.subgridRows && placed.rowSpan < 2) {
+                errors.push({
+                    property: `items/${index}/subgridRows`,
+                    severity: "warning",
+                    message: `Item ${
+                        index + 1
+                    }: Subgrid Rows spans only one row, so a nested grid gets a single row. Give the item a row span or a taller area.`
+                });
+            }
+        });
+    }
+
+    // Editable layout needs an attribute to store the arrangement
+    if (values.enableLayoutEditing) {
+        if (!values.layoutAttribute) {
+            errors.push({
+                property: "layoutAttribute",
+                severity: "error",
+                message: "Editable layout is enabled but no layout attribute is selected to store the arrangement."
+            });
+        }
+
+        if (values.enableItemResizing) {
+            staticItems.forEach((item, index) => {
+                const spanLimits = [
+                    { label: "Column", min: item.minColumnSpan, max: item.maxColumnSpan, key: "minColumnSpan" },
+                    { label: "Row", min: item.minRowSpan, max: item.maxRowSpan, key: "minRowSpan" }
+                ];
+                spanLimits.forEach(limit => {
+                    if (limit.min !== null && limit.min < 1) {
+                        errors.push({
+                            property: `items/${index}/${limit.key}`,
+                            severity: "error",
+                            message: `Item ${index + 1}: Min ${limit.label} Span must be at least 1.`
+                        });
+                    } else if (limit.min !== null && limit.max !== null && limit.max > 0 && limit.min > limit.max) {
+                        errors.push({
+                            property: `items/${index}/${limit.key}`,
+                            severity: "warning",
+                            message: `Item ${index + 1}: Min ${limit.label} Span is larger than Max ${
+                                limit.label
+                            } Span. The maximum is used.`
+                        });
+                    }
+                });
+            });
+        }
+
+        const unnamedItems = staticItems.filter(item => !item.itemName || item.itemName.trim() === "");
+        if (unnamedItems.length > 0) {
+            errors.push({
+                property: "enableLayoutEditing",
+                severity: "warning",
+                message: `${unnamedItems.length} item(s) have no Item Name. Their stored layout is keyed by position and will move to another item when items are reordered.`
+            });
+        }
+    }
+
     // General tips based on configuration
-    if (values.items.length === 0) {
+    if (!isDataSourceMode && staticItems.length === 0) {
         errors.push({
             property: "items",
             severity: "warning",
@@ -1255,24 +2018,22 @@ export const check: CheckFunction = values => {
  * @param values - Widget property values
  * @returns Custom caption string
  */
-export const getCustomCaption: CaptionFunction = values => {
+export const getCustomCaption: CaptionFunction = widgetValues => {
+    const values = applyLayoutPreset(widgetValues);
     const containerValues = values as ResponsiveContainerPreview;
 
     // Build caption parts
     const parts: string[] = [];
 
+    const preset = getLayoutPreset(values.layoutPreset);
+    if (preset) {
+        parts.push(`${preset.caption} preset`);
+    }
+
     if (values.useNamedAreas) {
-        let areaCount = 0;
-        if (values.gridTemplateAreas) {
-            // Count lines manually to avoid split
-            let lineCount = 1;
-            for (let i = 0; i < values.gridTemplateAreas.length; i++) {
-                if (values.gridTemplateAreas[i] === "\n") {
-                    lineCount++;
-                }
-            }
-            areaCount = lineCount;
-        }
+        const areaCount = values.gridTemplateAreas
+            ? getUniqueAreaNames(parseGridAreas(values.gridTemplateAreas)).length
+            : 0;
         parts.push(`Grid (${areaCount} areas)`);
     } else {
         // Parse grid dimensions without regex
@@ -1342,7 +2103,9 @@ export const getCustomCaption: CaptionFunction = values => {
         parts.push(`Grid (${columns}×${rows})`);
     }
 
-    if (values.items.length > 0) {
+    if (values.itemsSource === "datasource") {
+        parts.push("Data source items");
+    } else if (values.items.length > 0) {
         const responsiveItems = values.items.filter(item => item.enableResponsive).length;
         if (responsiveItems > 0) {
             parts.push(`${values.items.length} items (${responsiveItems} responsive)`);
@@ -15,7 +15,7 @@ import {
     GridItemPlacement,
     GridMetrics
 } from "./types/ConditionalTypes";
-import { parseGridTemplate, parseGridAreas } from "./utils/gridHelpers";
+import { getItemSizeValues, parseGridTemplate, parseGridAreas, parseGridLineNames } from "./utils/gridHelpers";
 import { BREAKPOINT_CONFIGS, getActiveBreakpointWithHysteresis, BreakpointSize } from "./types/BreakpointTypes";
 import {
     validateRuntimeGridContainerPreview,
@@ -35,7 +35,9 @@ import {
 import { ResponsiveIndicator } from "./components/preview/ResponsiveIndicator";
 import { DebugOverlay } from "./components/preview/DebugOverlay";
 import { GridAreaOverlay } from "./components/preview/GridAreaOverlay";
+import { AreaEditorTarget, GridAreaEditor } from "./components/preview/GridAreaEditor";
 import { GridItemRenderer } from "./components/preview/GridItemRenderer";
+import { DataSourceTemplateRenderer } from "./components/preview/DataSourceTemplateRenderer";
 import { generateAreaColors } from "./components/preview/areaColorGenerator";
 import {
     DEFAULT_CONTAINER_WIDTH,
@@ -45,14 +47,25 @@ import {
     MEASUREMENT_DELAY,
     RESIZE_DEBOUNCE_DELAY,
     CSS_VALUES,
-    CHAR_CODES
+    CHAR_CODES,
+    COLORS,
+    AREA_VISUALIZATION,
+    TYPOGRAPHY
 } from "./utils/constants";
 import { normalizeValue } from "./utils/stringHelpers";
+import { countGridTracks } from "./utils/gridPlacement";
+import { applyLayoutPreset, getLayoutPreset } from "./utils/presetHelpers";
+import { applyColumnSystem } from "./utils/columnSystemHelpers";
+import { resolveGapTokens } from "./utils/gapTokenHelpers";
+import { FLUID_PROPERTIES, getFluidValues } from "./utils/fluidHelpers";
 import { getSafeCSSValue } from "./utils/cssEnumMappings";
 import {
     forEachEnabledBreakpoint,
     getItemResponsivePropertyKeys,
     getBreakpointsToProcess,
+    getResponsiveMode,
+    isContainerResponsiveMode,
+    resolveBreakpointConfigs,
     ResponsiveMode
 } from "./utils/breakpointHelpers";
 
@@ -66,8 +79,12 @@ import {
  * Uses inline styles for compatibility with Mendix Studio Pro's Jint rendering
  */
 export const preview: React.FC<CSSGridPreviewProps> = props => {
-    // Validate and cast to runtime type to handle conditional properties
-    const runtimeProps = validateRuntimeGridContainerPreview(props);
+    // Fill in the layout preset, column system and gap tokens, then validate and cast to runtime type
+    // to handle conditional properties
+    const runtimeProps = validateRuntimeGridContainerPreview(
+        resolveGapTokens(applyColumnSystem(applyLayoutPreset(props)))
+    );
+    const layoutPreset = getLayoutPreset(props.layoutPreset);
 
     const {
         gridTemplateColumns,
@@ -77,6 +94,9 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
         columnGap,
         useNamedAreas,
         gridTemplateAreas,
+        subgridColumns = false,
+        subgridRows = false,
+        itemsSource,
         items,
         autoFlow = "row",
         autoColumns = "auto",
@@ -91,13 +111,23 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
         maxWidth,
         enableBreakpoints,
         responsiveMode,
+        fluidSizing = false,
         showGridLines = false,
         showGridAreas = false,
+        showAreaEditor = false,
         showGridGaps = false,
         class: className = "",
-        style: customStyle = ""
+        style: customStyle = "",
+        breakpointSource = "default",
+        customBreakpoints = ""
     } = runtimeProps;
 
+    // Breakpoint thresholds (default, custom JSON or theme variables)
+    const breakpointConfigs = useMemo(
+        () => resolveBreakpointConfigs(breakpointSource, customBreakpoints),
+        [breakpointSource, customBreakpoints]
+    );
+
     // Refs
     const containerRef = useRef<HTMLDivElement>(null);
     const gridRef = useRef<HTMLDivElement>(null);
@@ -353,8 +383,8 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
         }
 
         // Use shared helper to get breakpoints to process (exact mode: only 1 active breakpoint)
-        const mode: ResponsiveMode = responsiveMode === "cascade" ? "cascade" : "exact";
-        const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps);
+        const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+        const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps, breakpointConfigs);
 
         // Apply the active breakpoint's overrides
         breakpointsToProcess.forEach(activeBreakpointConfig => {
@@ -466,6 +496,19 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
             }
         });
 
+        // Fluid values are resolved for the preview's width, which is not the viewport's
+        if (fluidSizing) {
+            const fluidValues = getFluidValues(runtimeProps, breakpointConfigs, {
+                width: containerWidth,
+                containerUnits: isContainerResponsiveMode(responsiveMode)
+            });
+            FLUID_PROPERTIES.forEach(({ suffix, property }) => {
+                if (fluidValues[suffix]) {
+                    (activeValues as unknown as Record<string, string>)[property] = fluidValues[suffix];
+                }
+            });
+        }
+
         return activeValues;
     }, [
         enableBreakpoints,
@@ -489,6 +532,9 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
         minWidth,
         maxWidth,
         runtimeProps,
+        fluidSizing,
+        responsiveMode,
+        breakpointConfigs,
         normalizeValue
     ]);
 
@@ -567,7 +613,11 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                 const width = Math.round(rect.width); // Round to avoid sub-pixel issues
 
                 // Use hysteresis to prevent rapid breakpoint switching
-                const newBreakpoint = getActiveBreakpointWithHysteresis(width, activeBreakpointSize as BreakpointSize);
+                const newBreakpoint = getActiveBreakpointWithHysteresis(
+                    width,
+                    activeBreakpointSize as BreakpointSize,
+                    breakpointConfigs
+                );
 
                 setContainerWidth(width);
                 setActiveBreakpointSize(newBreakpoint);
@@ -599,7 +649,7 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                 clearTimeout(resizeTimeoutRef.current);
             }
         };
-    }, []);
+    }, [breakpointConfigs]);
 
     /**
      * Get active placement for responsive items in preview
@@ -632,8 +682,8 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
             };
 
             // Use shared helper to get breakpoints to process (exact mode: only 1 active breakpoint)
-            const mode: ResponsiveMode = responsiveMode === "cascade" ? "cascade" : "exact";
-            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps);
+            const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps, breakpointConfigs);
 
             // Apply the active breakpoint's overrides if item has it enabled
             breakpointsToProcess.forEach(activeBreakpointConfig => {
@@ -678,7 +728,7 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
 
             return activePlacement;
         },
-        [containerWidth, enableBreakpoints, normalizeValue, runtimeProps]
+        [containerWidth, enableBreakpoints, normalizeValue, runtimeProps, breakpointConfigs]
     );
 
     /**
@@ -695,8 +745,8 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
             }
 
             // Use shared helper to get breakpoints to process (exact mode: only 1 active breakpoint)
-            const mode: ResponsiveMode = responsiveMode === "cascade" ? "cascade" : "exact";
-            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps);
+            const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps, breakpointConfigs);
 
             // Check if item is hidden at the active breakpoint
             for (const activeBreakpointConfig of breakpointsToProcess) {
@@ -708,7 +758,7 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
 
             return false;
         },
-        [containerWidth, enableBreakpoints, runtimeProps]
+        [containerWidth, enableBreakpoints, runtimeProps, breakpointConfigs]
     );
 
     /**
@@ -719,12 +769,20 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
      * @returns Active alignment configuration
      */
     const getActiveItemAlignmentForPreview = useCallback(
-        (item: RuntimeGridItemPreview): { justifySelf: JustifySelfEnum; alignSelf: AlignSelfEnum; zIndex: string } => {
+        (
+            item: RuntimeGridItemPreview
+        ): {
+            justifySelf: JustifySelfEnum;
+            alignSelf: AlignSelfEnum;
+            zIndex: string;
+            order: string;
+        } => {
             if (!item.enableResponsive || !enableBreakpoints) {
                 return {
                     justifySelf: (item.justifySelf || "auto") as JustifySelfEnum,
                     alignSelf: (item.alignSelf || "auto") as AlignSelfEnum,
-                    zIndex: item.zIndex || ""
+                    zIndex: item.zIndex || "",
+                    order: item.order || ""
                 };
             }
 
@@ -732,12 +790,13 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
             const activeAlignment = {
                 justifySelf: (item.justifySelf || "auto") as JustifySelfEnum,
                 alignSelf: (item.alignSelf || "auto") as AlignSelfEnum,
-                zIndex: item.zIndex || ""
+                zIndex: item.zIndex || "",
+                order: item.order || ""
             };
 
             // Use shared helper to get breakpoints to process (exact mode: only 1 active breakpoint)
-            const mode: ResponsiveMode = responsiveMode === "cascade" ? "cascade" : "exact";
-            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps);
+            const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps, breakpointConfigs);
 
             // Apply the active breakpoint's overrides if item has it enabled
             breakpointsToProcess.forEach(activeBreakpointConfig => {
@@ -748,6 +807,7 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                     const justifySelf = item[keys.justifySelf as keyof RuntimeGridItemPreview] as JustifySelfEnum;
                     const alignSelf = item[keys.alignSelf as keyof RuntimeGridItemPreview] as AlignSelfEnum;
                     const zIndex = item[keys.zIndex as keyof RuntimeGridItemPreview] as string;
+                    const order = item[keys.order as keyof RuntimeGridItemPreview] as string;
 
                     if (justifySelf) {
                         activeAlignment.justifySelf = justifySelf;
@@ -758,12 +818,44 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                     if (zIndex) {
                         activeAlignment.zIndex = zIndex;
                     }
+                    if (order) {
+                        activeAlignment.order = order;
+                    }
                 }
             });
 
             return activeAlignment;
         },
-        [containerWidth, enableBreakpoints, runtimeProps]
+        [containerWidth, enableBreakpoints, runtimeProps, breakpointConfigs]
+    );
+
+    /**
+     * Get active size constraints for responsive items in preview
+     * Breakpoint values override the base values one property at a time
+     *
+     * @param item - The grid item to get size constraints for
+     * @returns Active aspect ratio and min/max sizes, keyed by style property
+     */
+    const getActiveItemSizeForPreview = useCallback(
+        (item: RuntimeGridItemPreview): Record<string, string> => {
+            const activeSize = getItemSizeValues(item);
+            if (!item.enableResponsive || !enableBreakpoints) {
+                return activeSize;
+            }
+
+            const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+            const breakpointsToProcess = getBreakpointsToProcess(mode, containerWidth, runtimeProps, breakpointConfigs);
+
+            breakpointsToProcess.forEach(activeBreakpointConfig => {
+                const keys = getItemResponsivePropertyKeys(activeBreakpointConfig.size);
+                if (item[keys.enabled as keyof RuntimeGridItemPreview]) {
+                    Object.assign(activeSize, getItemSizeValues(item, activeBreakpointConfig.size));
+                }
+            });
+
+            return activeSize;
+        },
+        [containerWidth, enableBreakpoints, runtimeProps, breakpointConfigs]
     );
 
     /**
@@ -782,12 +874,58 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
         return {
             columnCount: columns.length,
             rowCount: rows.length,
+            columnLineNames: parseGridLineNames(activeValues.columns),
+            rowLineNames: parseGridLineNames(activeValues.rows),
             parsedAreas: areas,
             uniqueAreas,
             areaColorMap: generateAreaColors(uniqueAreas)
         };
     }, [activeBreakpointValues, memoizedParseGridAreas]);
 
+    /**
+     * Layouts the area editor generates text for: the base layout and every enabled breakpoint
+     * Empty areas start from a matrix the size of the layout's templates
+     */
+    const areaEditorTargets = useMemo<AreaEditorTarget[]>(() => {
+        if (!showAreaEditor || !useNamedAreas) {
+            return [];
+        }
+
+        const targets: AreaEditorTarget[] = [
+            {
+                key: "base",
+                label: "Base layout",
+                property: "Grid Template Areas",
+                areas: gridTemplateAreas || "",
+                columnCount: countGridTracks(gridTemplateColumns),
+                rowCount: countGridTracks(gridTemplateRows)
+            }
+        ];
+
+        if (enableBreakpoints) {
+            forEachEnabledBreakpoint(runtimeProps, (config, getProperty) => {
+                targets.push({
+                    key: config.size,
+                    label: `${config.label} breakpoint`,
+                    property: `${config.size.toUpperCase()} Template Areas`,
+                    areas: (getProperty("Areas") as string) || "",
+                    columnCount: countGridTracks((getProperty("Columns") as string) || gridTemplateColumns),
+                    rowCount: countGridTracks((getProperty("Rows") as string) || gridTemplateRows)
+                });
+            });
+        }
+
+        return targets;
+    }, [
+        showAreaEditor,
+        useNamedAreas,
+        gridTemplateAreas,
+        gridTemplateColumns,
+        gridTemplateRows,
+        enableBreakpoints,
+        runtimeProps
+    ]);
+
     /**
      * Measure grid tracks and gaps after DOM updates
      * Calculates the actual positions and sizes of grid lines
@@ -1107,6 +1245,20 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
      * Renders each configured item with appropriate placement and styling
      */
     const renderGridItems = useCallback(() => {
+        // Datasource mode renders the per-object template once
+        if (itemsSource === "datasource") {
+            return (
+                <DataSourceTemplateRenderer
+                    dataContent={runtimeProps.dataContent}
+                    dataJustifySelf={runtimeProps.dataJustifySelf}
+                    dataAlignSelf={runtimeProps.dataAlignSelf}
+                    dataSubgridColumns={runtimeProps.dataSubgridColumns}
+                    dataSubgridRows={runtimeProps.dataSubgridRows}
+                    hasDataSource={!!runtimeProps.dataSource}
+                />
+            );
+        }
+
         const allDefinedAreas = getAllDefinedAreas();
         const activeConfig = getActiveGridConfig();
 
@@ -1121,6 +1273,7 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
 
             // Get the active alignment for this item at the current breakpoint
             const activeAlignment = getActiveItemAlignmentForPreview(runtimeItem);
+            const activeSize = getActiveItemSizeForPreview(runtimeItem);
 
             // Determine the effective placement type
             const effectivePlacementType =
@@ -1168,6 +1321,7 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                     isHidden={isHidden}
                     activePlacement={validatedPlacement}
                     activeAlignment={activeAlignment}
+                    activeSize={activeSize}
                     effectivePlacementType={effectivePlacementType}
                     itemName={itemName}
                     hasResponsive={hasResponsive}
@@ -1178,12 +1332,20 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
             );
         });
     }, [
+        itemsSource,
         items,
+        runtimeProps.dataContent,
+        runtimeProps.dataJustifySelf,
+        runtimeProps.dataAlignSelf,
+        runtimeProps.dataSubgridColumns,
+        runtimeProps.dataSubgridRows,
+        runtimeProps.dataSource,
         useNamedAreas,
         getAllDefinedAreas,
         getActiveGridConfig,
         getActiveItemPlacementForPreview,
         getActiveItemAlignmentForPreview,
+        getActiveItemSizeForPreview,
         isItemHiddenAtCurrentBreakpoint,
         activeBreakpointValues,
         memoizedParseGridAreas,
@@ -1197,6 +1359,13 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
     const containerClasses = useMemo(() => {
         const classes = ["css-grid-preview", "css-grid", `css-grid--${activeBreakpointSize}`, className];
 
+        if (subgridColumns) {
+            classes.push("css-grid--subgrid-columns");
+        }
+        if (subgridRows) {
+            classes.push("css-grid--subgrid-rows");
+        }
+
         if (enableBreakpoints) {
             classes.push("css-grid--responsive");
 
@@ -1207,12 +1376,16 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
         }
 
         return classes.filter(Boolean).join(" ");
-    }, [activeBreakpointSize, className, enableBreakpoints, runtimeProps]);
+    }, [activeBreakpointSize, className, subgridColumns, subgridRows, enableBreakpoints, runtimeProps]);
 
     return (
         <div
             ref={containerRef}
-            className="css-grid-preview-wrapper"
+            className={
+                subgridColumns || subgridRows
+                    ? "css-grid-preview-wrapper css-grid-preview-wrapper--subgrid"
+                    : "css-grid-preview-wrapper"
+            }
             style={{
                 position: "relative",
                 width: CSS_VALUES.FULL_WIDTH
@@ -1226,9 +1399,11 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                 containerWidth={containerWidth}
                 containerHeight={containerRef.current?.offsetHeight || 0}
                 runtimeProps={runtimeProps}
-                items={items}
+                items={itemsSource === "datasource" ? [] : items}
                 isItemHiddenAtCurrentBreakpoint={isItemHiddenAtCurrentBreakpoint}
                 responsiveMode={responsiveMode}
+                breakpointConfigs={breakpointConfigs}
+                presetCaption={layoutPreset?.caption}
             />
 
             {/* Main grid container */}
@@ -1252,8 +1427,17 @@ export const preview: React.FC<CSSGridPreviewProps> = props => {
                 {renderGridItems()}
 
                 {/* Debug overlays - on top */}
-                <DebugOverlay gridMetrics={gridMetrics} showGridLines={showGridLines} showGridGaps={showGridGaps} />
+                <DebugOverlay
+                    gridMetrics={gridMetrics}
+                    showGridLines={showGridLines}
+                    showGridGaps={showGridGaps}
+                    columnLineNames={gridDimensions.columnLineNames}
+                    rowLineNames={gridDimensions.rowLineNames}
+                />
             </div>
+
+            {/* Visual editor for the named areas */}
+            {areaEditorTargets.length > 0 && <GridAreaEditor targets={areaEditorTargets} />}
         </div>
     );
 };
@@ -1323,6 +1507,39 @@ export function getPreviewCss(): string {
             hyphens: auto;
         }
 
+        /* Subgrid - preview wrappers step aside so nested grids sit in the item's tracks */
+        @supports (grid-template-columns: subgrid) {
+            .css-grid__item--subgrid-columns,
+            .css-grid__item--subgrid-rows {
+                display: grid;
+            }
+            .css-grid__item--subgrid-columns {
+                grid-template-columns: subgrid;
+            }
+            .css-grid__item--subgrid-rows {
+                grid-template-rows: subgrid;
+            }
+            .css-grid__item--subgrid-columns > * {
+                grid-column: 1 / -1;
+            }
+            .css-grid__item--subgrid-rows > * {
+                grid-row: 1 / -1;
+            }
+            .css-grid__item--subgrid-columns > .css-grid-preview-content,
+            .css-grid__item--subgrid-rows > .css-grid-preview-content,
+            .css-grid-preview-wrapper--subgrid {
+                display: contents;
+            }
+            .css-grid__item--subgrid-columns .css-grid--subgrid-columns {
+                grid-template-columns: subgrid !important;
+                grid-column: 1 / -1;
+            }
+            .css-grid__item--subgrid-rows .css-grid--subgrid-rows {
+                grid-template-rows: subgrid !important;
+                grid-row: 1 / -1;
+            }
+        }
+
         /* Remove all ::before and ::after pseudo elements */
         .css-grid-preview *::before,
         .css-grid-preview *::after {
@@ -1338,6 +1555,61 @@ export function getPreviewCss(): string {
             font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
         }
 
+        /* Area editor */
+        .css-grid-area-editor {
+            margin-top: 12px;
+            padding: 8px;
+            border: 1px solid ${COLORS.PRIMARY_BORDER};
+            border-radius: ${AREA_VISUALIZATION.BORDER_RADIUS}px;
+            font-size: ${TYPOGRAPHY.FONT_SIZE_LARGE}px;
+        }
+        .css-grid-area-editor__toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 4px;
+            margin-bottom: 8px;
+        }
+        .css-grid-area-editor__swatch {
+            border: 1px solid rgba(0, 0, 0, ${AREA_VISUALIZATION.BORDER_OPACITY});
+        }
+        .css-grid-area-editor__swatch[aria-pressed="true"] {
+            outline: 2px solid ${COLORS.FOCUS_OUTLINE};
+        }
+        .css-grid-area-editor__name[aria-invalid="true"] {
+            border-color: ${COLORS.ERROR_BORDER};
+        }
+        .css-grid-area-editor__matrix {
+            display: grid;
+            position: relative;
+            z-index: 0;
+            gap: 2px;
+            user-select: none;
+        }
+        .css-grid-area-editor__cell {
+            border: 1px dashed rgba(0, 0, 0, ${AREA_VISUALIZATION.BORDER_OPACITY});
+            cursor: crosshair;
+        }
+        .css-grid-area-editor__error {
+            margin-top: 4px;
+            color: ${COLORS.ERROR_BORDER};
+        }
+        .css-grid-area-editor__output {
+            display: flex;
+            align-items: flex-start;
+            gap: 4px;
+            margin-top: 8px;
+        }
+        .css-grid-area-editor__output textarea {
+            flex: 1;
+            font-family: monospace;
+            resize: vertical;
+        }
+        .css-grid-area-editor__hint {
+            margin-top: 4px;
+            color: ${COLORS.TEXT_MUTED};
+        }
+
         /* Responsive indicator */
         .css-grid-preview-info {
             position: absolute;
@@ -1,7 +1,25 @@
-import { ReactElement, createElement, CSSProperties, useMemo, useRef, useEffect, useState, useCallback } from "react";
+import {
+    ReactElement,
+    createElement,
+    CSSProperties,
+    useMemo,
+    useRef,
+    useEffect,
+    useState,
+    useCallback,
+    useId
+} from "react";
 import { CSSGridContainerProps } from "../typings/CSSGridProps";
 import { RuntimeGridItem, RuntimeGridContainer, GridItemPlacement } from "./types/ConditionalTypes";
-import { getGridItemPlacement, parseGridAreas } from "./utils/gridHelpers";
+import {
+    getGridItemPlacement,
+    getItemOrder,
+    getItemSizeValues,
+    parseItemOrder,
+    parseGridAreas,
+    generateContainerBreakpointStyles,
+    generateItemBreakpointStyles
+} from "./utils/gridHelpers";
 import { BreakpointSize, getActiveBreakpoint, BREAKPOINT_CONFIGS } from "./types/BreakpointTypes";
 import {
     validateRuntimeGridContainer,
@@ -14,25 +32,89 @@ import {
     isAlignContentEnum
 } from "./utils/typeValidation";
 import {
+    DEFAULT_MASONRY_ROW_SIZE,
     DEFAULT_VIRTUALIZATION_THRESHOLD,
     VIRTUALIZATION_ROOT_MARGIN,
     VIRTUALIZATION_THRESHOLD_RATIO,
     VIRTUALIZATION_BUFFER_SIZE,
+    VIRTUALIZATION_BUFFER_ROWS,
+    DEFAULT_WINDOW_ROW_HEIGHT,
+    SCROLL_RESTORE_ITEM_COUNT,
+    SCROLL_STATE_SAVE_DELAY,
     RESIZE_DEBOUNCE_DELAY,
     INITIAL_RENDER_DELAY,
     LARGE_GRID_THRESHOLD,
     CHAR_CODES,
+    ITEM_SIZE_PROPERTIES,
     LAYOUT
 } from "./utils/constants";
-import { normalizeValue } from "./utils/stringHelpers";
+import { normalizeValue, safeTrim } from "./utils/stringHelpers";
 import { getSafeCSSValue } from "./utils/cssEnumMappings";
 import {
     forEachEnabledBreakpoint,
     forEachEnabledItemBreakpoint,
     forEachBreakpoint,
     getBreakpointsToProcess,
+    getEffectiveBreakpoint,
+    getResponsiveMode,
+    isContainerResponsiveMode,
+    resolveBreakpointConfigs,
     ResponsiveMode
 } from "./utils/breakpointHelpers";
+import { getDataSourceGridItems } from "./utils/dataSourceHelpers";
+import {
+    getGridCellFromPoint,
+    getGridTracks,
+    getLayoutBreakpointKey,
+    getLayoutGridPlacement,
+    getLayoutItemKey,
+    getSpanLimits,
+    measureLayoutPlacement,
+    moveLayoutPlacement,
+    parseLayout,
+    resizeLayoutPlacement,
+    serializeLayout,
+    shiftLayoutPlacement
+} from "./utils/layoutHelpers";
+import { GridCell, GridLayout, LayoutPlacement, StoredLayouts } from "./types/LayoutTypes";
+import {
+    countGridTracks,
+    computeGridPlacement,
+    hasAutoRepeatTracks,
+    findAdjacentItem,
+    findGridEdgeItem,
+    findItemRowsAway,
+    findRowEdgeItem,
+    getPlacedItem
+} from "./utils/gridPlacement";
+import { getMasonryRowSpan, supportsNativeMasonry } from "./utils/masonryHelpers";
+import { isItemHiddenAtBreakpoint, isItemVisibleByExpression } from "./utils/visibilityHelpers";
+import { resolveAreaTemplates, resolveDynamicTemplates } from "./utils/dynamicTemplateHelpers";
+import { applyLayoutPreset } from "./utils/presetHelpers";
+import { warnOnce } from "./utils/warningHelpers";
+import { applyColumnSystem } from "./utils/columnSystemHelpers";
+import { resolveGapTokens } from "./utils/gapTokenHelpers";
+import { applyFluidValues, FLUID_PROPERTIES, getFluidValues } from "./utils/fluidHelpers";
+import {
+    captureScrollState,
+    getScrollParent,
+    getScrollStorageKey,
+    getScrollViewport,
+    getSpacerHeight,
+    getPlaceholderSizeStyle,
+    getDetachedItemStyle,
+    getVisibleRowRange,
+    measureItemSize,
+    measureWindowMetrics,
+    parseScrollState,
+    readSessionValue,
+    restoreScrollState,
+    scrollRowIntoView,
+    serializeScrollState,
+    writeSessionValue
+} from "./utils/virtualizationHelpers";
+import { ItemSize, PlaceholderSizeCache, ScrollState, WindowMetrics, WindowRange } from "./types/VirtualizationTypes";
+import { GridDirection } from "./types/PlacementTypes";
 import "./ui/CSSGrid.css";
 
 /**
@@ -44,10 +126,24 @@ import "./ui/CSSGrid.css";
  * 3. Use simple overrides at breakpoints instead of complex fallbacks
  * 4. Keep all other functionality intact (virtualization, accessibility, etc.)
  *
- * @param props - Widget properties from Mendix
+ * @param widgetProps - Widget properties from Mendix
  * @returns React element representing the CSS Grid
  */
-export function CSSGrid(props: CSSGridContainerProps): ReactElement {
+export function CSSGrid(widgetProps: CSSGridContainerProps): ReactElement {
+    // The layout preset fills in unset values, valid dynamic templates and gap replace the
+    // static values before anything reads them, the column system replaces the column templates
+    // and item spans, gap tokens become CSS values, and template areas the browser would reject are dropped.
+    // Memoized so the resolved props (and the items) keep their identity between renders
+    const { props, templateWarning } = useMemo(() => {
+        const dynamicTemplates = resolveDynamicTemplates(applyLayoutPreset(widgetProps));
+        const layoutProps = resolveGapTokens(applyColumnSystem(dynamicTemplates.props));
+        const areaTemplates = resolveAreaTemplates(layoutProps);
+        return {
+            props: areaTemplates.props,
+            templateWarning: [...dynamicTemplates.warnings, ...areaTemplates.warnings].join("\n")
+        };
+    }, [widgetProps]);
+
     const {
         gridTemplateColumns,
         gridTemplateRows,
@@ -56,33 +152,132 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         columnGap,
         useNamedAreas,
         gridTemplateAreas,
+        subgridColumns,
+        subgridRows,
+        itemsSource,
         items,
+        dataSource,
         autoFlow,
         autoColumns,
         autoRows,
+        enableMasonry,
+        masonryRowSize,
         justifyItems,
         alignItems,
         justifyContent,
         alignContent,
         enableBreakpoints,
         responsiveMode,
+        fluidSizing,
+        breakpointSource,
+        customBreakpoints,
+        breakpointAttribute,
+        onBreakpointChange,
         minHeight,
         maxHeight,
         minWidth,
         maxWidth,
         enableVirtualization,
         virtualizeThreshold,
+        virtualizationMode,
+        scrollParentSelector,
+        placeholderAppearance,
+        scrollRestoration,
+        scrollStateKey,
+        scrollStateAttribute,
+        styleStrategy,
+        enableLayoutEditing,
+        enableItemResizing,
+        layoutAttribute,
+        onLayoutChange,
         class: className,
         style,
         ariaLabel,
         ariaLabelledBy,
         ariaDescribedBy,
+        itemOrderMode,
         role
     } = props;
 
     // Validate and cast to runtime type to handle conditional properties
     const runtimeProps = validateRuntimeGridContainer(props);
 
+    /**
+     * Breakpoint widths for this instance (default, custom or theme thresholds)
+     */
+    const breakpointConfigs = useMemo(
+        () => resolveBreakpointConfigs(breakpointSource, customBreakpoints),
+        [breakpointSource, customBreakpoints]
+    );
+    const hasCustomBreakpoints = breakpointConfigs !== BREAKPOINT_CONFIGS;
+
+    /**
+     * Whether breakpoints follow the grid's own width (container queries)
+     * instead of the viewport width
+     */
+    const isContainerQueryMode = enableBreakpoints && isContainerResponsiveMode(responsiveMode);
+
+    /**
+     * Whether breakpoint layouts come from a per-instance style sheet with real media queries
+     * A grid cannot query its own size, so container query modes keep the CSS variable strategy
+     */
+    const isScopedStylesheet = enableBreakpoints && styleStrategy === "stylesheet" && !isContainerQueryMode;
+
+    /**
+     * Masonry uses native CSS masonry where supported; otherwise items are
+     * measured and span as many small base rows as their height needs
+     */
+    const isMasonryFallback = useMemo(() => enableMasonry && !supportsNativeMasonry(), [enableMasonry]);
+    const masonryBaseRow = masonryRowSize > 0 ? masonryRowSize : DEFAULT_MASONRY_ROW_SIZE;
+
+    /**
+     * Unique class name that scopes the generated style sheet to this instance
+     */
+    const reactId = useId();
+    const widgetId = useMemo(() => `css-grid-${reactId.replace(/[^a-zA-Z0-9_-]/g, "")}`, [reactId]);
+
+    /**
+     * Resolve grid items from the configured source
+     * Datasource objects are mapped onto the same item shape as static items
+     */
+    const gridItems = useMemo<RuntimeGridItem[]>(() => {
+        if (itemsSource === "datasource") {
+            return getDataSourceGridItems(props);
+        }
+        return (items || []).map(item => validateRuntimeGridItem(item));
+    }, [
+        itemsSource,
+        items,
+        dataSource,
+        props.dataContent,
+        props.dataItemName,
+        props.dataClass,
+        props.dataVisible,
+        props.dataRenderAs,
+        props.dataPlacementType,
+        props.dataGridArea,
+        props.dataColumnStart,
+        props.dataColumnEnd,
+        props.dataRowStart,
+        props.dataRowEnd,
+        props.dataJustifySelf,
+        props.dataAlignSelf,
+        props.dataSubgridColumns,
+        props.dataSubgridRows
+    ]);
+
+    /**
+     * Stored layouts for editable grids, by breakpoint
+     * Read back from the layout attribute so arrangements survive reloads
+     */
+    const isLayoutEditingEnabled = enableLayoutEditing && !!layoutAttribute;
+    const canEditLayout = isLayoutEditingEnabled && !layoutAttribute?.readOnly;
+    const canResizeItems = canEditLayout && enableItemResizing;
+    const storedLayouts = useMemo<StoredLayouts>(
+        () => (isLayoutEditingEnabled ? parseLayout(layoutAttribute?.value) : {}),
+        [isLayoutEditingEnabled, layoutAttribute?.value]
+    );
+
     // Configuration constants are imported from utils/constants.ts
 
     // Refs for DOM access
@@ -90,12 +285,44 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
     const observerRef = useRef<IntersectionObserver | null>(null);
     const resizeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const currentWidthRef = useRef<number>(window.innerWidth);
+    const dragOffsetRef = useRef<GridCell>({ column: 0, row: 0 });
+    const resizeStartRef = useRef<{ index: number; axis: string; placement: LayoutPlacement } | null>(null);
+    const focusWithinRef = useRef(false);
+    const pendingFocusRef = useRef<number | null>(null);
+    const placeholderSizesRef = useRef<PlaceholderSizeCache>({ breakpoint: "lg", sizes: {} });
+    const pendingScrollStateRef = useRef<ScrollState | null>(null);
+    const hasRestoredScrollRef = useRef(false);
+    const reportedBreakpointRef = useRef<BreakpointSize | null>(null);
 
     // State management
     const [visibleItems, setVisibleItems] = useState<Set<number>>(() => new Set());
     const [currentWidth, setCurrentWidth] = useState<number>(window.innerWidth);
     const [activeBreakpointSize, setActiveBreakpointSize] = useState<BreakpointSize>("lg");
+    const [isBreakpointMeasured, setIsBreakpointMeasured] = useState(false);
     const [isInitialized, setIsInitialized] = useState(false);
+    const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+    const [layoutAnnouncement, setLayoutAnnouncement] = useState("");
+    const [resizePreview, setResizePreview] = useState<{ index: number; placement: LayoutPlacement } | null>(null);
+    const [activeCellKey, setActiveCellKey] = useState<string | null>(null);
+    const [windowRange, setWindowRange] = useState<WindowRange>({ firstRow: 0, lastRow: VIRTUALIZATION_BUFFER_ROWS });
+    const [windowMetrics, setWindowMetrics] = useState<WindowMetrics>(() => ({
+        columnCount: Math.max(1, countGridTracks(gridTemplateColumns)),
+        rowHeight: DEFAULT_WINDOW_ROW_HEIGHT,
+        rowGap: 0
+    }));
+    const [masonrySpans, setMasonrySpans] = useState<Record<number, number>>({});
+    const [subgridTracks, setSubgridTracks] = useState<{ columns: number; rows: number }>({ columns: 0, rows: 0 });
+    const [autoRepeatColumnCount, setAutoRepeatColumnCount] = useState(0);
+
+    /**
+     * Stored layout of the active breakpoint
+     * Another breakpoint has other columns, so its arrangement does not apply here
+     */
+    const layoutBreakpointKey = getLayoutBreakpointKey(enableBreakpoints, activeBreakpointSize);
+    const savedLayout = useMemo<GridLayout>(
+        () => storedLayouts[layoutBreakpointKey] ?? {},
+        [storedLayouts, layoutBreakpointKey]
+    );
 
     // normalizeValue function is now imported from utils/stringHelpers
 
@@ -105,8 +332,63 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
      * Determine if virtualization should be enabled
      */
     const shouldVirtualize = useMemo(() => {
-        return enableVirtualization && items.length >= (virtualizeThreshold || DEFAULT_VIRTUALIZATION_THRESHOLD);
-    }, [enableVirtualization, items.length, virtualizeThreshold]);
+        return enableVirtualization && gridItems.length >= (virtualizeThreshold || DEFAULT_VIRTUALIZATION_THRESHOLD);
+    }, [enableVirtualization, gridItems.length, virtualizeThreshold]);
+
+    /**
+     * Windowed virtualization renders only the visible rows
+     * Masonry rows depend on every item's height, so masonry grids keep placeholders
+     */
+    const isWindowed = shouldVirtualize && virtualizationMode === "windowed" && !enableMasonry;
+    /**
+     * Breakpoints whose item order is in effect at the current width
+     */
+    const orderBreakpoints = useMemo(
+        () =>
+            enableBreakpoints
+                ? getBreakpointsToProcess(
+                      getResponsiveMode(responsiveMode),
+                      currentWidth,
+                      runtimeProps,
+                      breakpointConfigs
+                  )
+                : [],
+        [enableBreakpoints, responsiveMode, currentWidth, runtimeProps, breakpointConfigs]
+    );
+    /**
+     * Items that take a cell at the active breakpoint, in visual order
+     * Items hidden by an expression or Hidden flag are left out of placement, windowing and ARIA counts.
+     * Sorted by their order like the browser does, keeping item order for equal values.
+     */
+    const shownItemIndices = useMemo(
+        () =>
+            gridItems
+                .map((item, index) => ({ item, index }))
+                .filter(({ item }) => !isItemHiddenAtBreakpoint(item, activeBreakpointSize, enableBreakpoints))
+                .map(({ item, index }) => ({
+                    index,
+                    order: getItemOrder(item, orderBreakpoints)
+                }))
+                .sort((a, b) => a.order - b.order || a.index - b.index)
+                .map(({ index }) => index),
+        [gridItems, activeBreakpointSize, enableBreakpoints, orderBreakpoints]
+    );
+    const shownItemPositions = useMemo(
+        () => new Map(shownItemIndices.map((itemIndex, position) => [itemIndex, position])),
+        [shownItemIndices]
+    );
+
+    const windowRowCount = Math.ceil(shownItemIndices.length / windowMetrics.columnCount);
+
+    /**
+     * Scroll position restoration for virtualized grids
+     * Session storage is keyed by the configured key, as widget names repeat across pages
+     */
+    const scrollStorageKey = getScrollStorageKey(safeTrim(scrollStateKey));
+    const isScrollRestoreEnabled =
+        shouldVirtualize &&
+        ((scrollRestoration === "session" && !!safeTrim(scrollStateKey)) ||
+            (scrollRestoration === "attribute" && !!scrollStateAttribute));
 
     /**
      * Generate accessible label for grid items
@@ -124,12 +406,12 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 return `Grid area: ${item.gridArea}`;
             }
 
-            // Fallback to positional description
-            const position = index + 1;
-            const total = items.length;
+            // Fallback to positional description among the shown items
+            const position = (shownItemPositions.get(index) ?? index) + 1;
+            const total = shownItemIndices.length;
             return `Grid item ${position} of ${total}`;
         },
-        [items.length, useNamedAreas]
+        [shownItemIndices.length, shownItemPositions, useNamedAreas]
     );
 
     /**
@@ -257,6 +539,18 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         [useNamedAreas, validateCSSIdentifier]
     );
 
+    /**
+     * Fluid gaps and sizes, interpolated between the smallest and largest enabled breakpoint
+     * Container modes scale with the nearest size container around the grid (cqw)
+     */
+    const fluidValues = useMemo(
+        () =>
+            enableBreakpoints && fluidSizing
+                ? getFluidValues(runtimeProps, breakpointConfigs, { containerUnits: isContainerQueryMode })
+                : {},
+        [enableBreakpoints, fluidSizing, runtimeProps, breakpointConfigs, isContainerQueryMode]
+    );
+
     /**
      * Build CSS custom properties for responsive values
      * Only includes variables that differ from defaults
@@ -352,16 +646,26 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             }
         }
 
+        // Fluid values replace the base value and the breakpoints' own values
+        FLUID_PROPERTIES.forEach(({ suffix, cssVariable }) => {
+            if (fluidValues[suffix]) {
+                cssVars[`--css-grid-${cssVariable}`] = fluidValues[suffix];
+            }
+        });
+
         // Performance-optimized breakpoint processing
         // Process only relevant breakpoints (exact mode: 1 breakpoint, cascade mode: 2-3 breakpoints)
         if (enableBreakpoints) {
-            const mode: ResponsiveMode = responsiveMode === "cascade" ? "cascade" : "exact";
-            const breakpointsToProcess = getBreakpointsToProcess(mode, currentWidth, runtimeProps);
+            const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+            const breakpointsToProcess = getBreakpointsToProcess(mode, currentWidth, runtimeProps, breakpointConfigs);
 
             // Process only the breakpoints that are relevant for current mode and width
             breakpointsToProcess.forEach(config => {
                 // Helper to get normalized property value
                 const getNormalizedProperty = (prop: string): string | undefined => {
+                    if (fluidValues[prop]) {
+                        return undefined;
+                    }
                     const key = `${config.size}${prop}` as keyof RuntimeGridContainer;
                     return normalizeValue(runtimeProps[key] as string | undefined);
                 };
@@ -490,6 +794,8 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
     }, [
         enableBreakpoints,
         currentWidth, // Optimized: only track width changes for breakpoint switching
+        breakpointConfigs,
+        fluidValues,
         gridTemplateColumns,
         gridTemplateRows,
         gridTemplateAreas,
@@ -530,6 +836,18 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             if (item.zIndex) {
                 cssVars[`--css-grid__item-z-index`] = String(item.zIndex);
             }
+            const order = parseItemOrder(item.order);
+            if (order !== null) {
+                cssVars[`--css-grid__item-order`] = String(order);
+            }
+
+            // Base size constraints
+            const sizeValues = getItemSizeValues(item);
+            ITEM_SIZE_PROPERTIES.forEach(({ property, cssProperty }) => {
+                if (sizeValues[property]) {
+                    cssVars[`--css-grid__item-${cssProperty}`] = sizeValues[property];
+                }
+            });
 
             // Base placement variables based on type
             if (item.placementType === "area" && item.gridArea) {
@@ -611,6 +929,18 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                     if (zIndex !== null && zIndex !== undefined) {
                         cssVars[`--css-grid__item-${config.size}-z-index`] = String(zIndex);
                     }
+                    const breakpointOrder = parseItemOrder(getProperty("Order") as string | undefined);
+                    if (breakpointOrder !== null) {
+                        cssVars[`--css-grid__item-${config.size}-order`] = String(breakpointOrder);
+                    }
+
+                    // Responsive size constraints
+                    const breakpointSizeValues = getItemSizeValues(item, config.size);
+                    ITEM_SIZE_PROPERTIES.forEach(({ property, cssProperty }) => {
+                        if (breakpointSizeValues[property]) {
+                            cssVars[`--css-grid__item-${config.size}-${cssProperty}`] = breakpointSizeValues[property];
+                        }
+                    });
                 });
             }
 
@@ -624,7 +954,50 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
      * When responsive is enabled, we use CSS custom properties
      * When responsive is disabled, we use direct CSS properties
      */
+    /**
+     * Masonry container styles
+     * Inline, so they override the configured and breakpoint row templates
+     */
+    const masonryStyles = useMemo<CSSProperties>(() => {
+        if (!enableMasonry) {
+            return {};
+        }
+        if (!isMasonryFallback) {
+            return { gridTemplateRows: "masonry" };
+        }
+        return { gridTemplateRows: "none", gridAutoRows: `${masonryBaseRow}px` };
+    }, [enableMasonry, isMasonryFallback, masonryBaseRow]);
+
+    /**
+     * Windowed grid rows: a spacer row above and below the rendered rows
+     * Each spacer track stands in for the rows it replaces
+     */
+    const windowStyles = useMemo<CSSProperties>(() => {
+        if (!isWindowed) {
+            return {};
+        }
+
+        const renderedRows = Math.max(1, windowRange.lastRow - windowRange.firstRow + 1);
+        const topSpacer = getSpacerHeight(windowRange.firstRow, windowMetrics);
+        const bottomSpacer = getSpacerHeight(windowRowCount - windowRange.lastRow - 1, windowMetrics);
+        const tracks = [`repeat(${renderedRows}, ${normalizeValue(autoRows) || "auto"})`];
+        if (topSpacer > 0) {
+            tracks.unshift(`${topSpacer}px`);
+        }
+        if (bottomSpacer > 0) {
+            tracks.push(`${bottomSpacer}px`);
+        }
+
+        return { gridTemplateRows: tracks.join(" ") };
+    }, [isWindowed, windowRange, windowMetrics, windowRowCount, autoRows]);
+
     const containerStyles = useMemo<CSSProperties>(() => {
+        // The scoped style sheet carries the base and breakpoint layout,
+        // inline declarations would override its media queries
+        if (isScopedStylesheet) {
+            return { ...masonryStyles, ...windowStyles, ...style };
+        }
+
         if (enableBreakpoints) {
             // Use CSS custom properties for responsive behavior
             const cssVars = buildResponsiveCSSVariables;
@@ -632,6 +1005,8 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             return {
                 ...cssVars,
                 display: "grid",
+                ...masonryStyles,
+                ...windowStyles,
                 ...style
             } as CSSProperties;
         }
@@ -656,6 +1031,8 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             maxHeight: normalizeValue(maxHeight),
             minWidth: normalizeValue(minWidth),
             maxWidth: normalizeValue(maxWidth),
+            ...masonryStyles,
+            ...windowStyles,
             ...style
         };
 
@@ -682,6 +1059,7 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         return styles;
     }, [
         enableBreakpoints,
+        isScopedStylesheet,
         buildResponsiveCSSVariables,
         gridTemplateColumns,
         gridTemplateRows,
@@ -701,18 +1079,77 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         maxHeight,
         minWidth,
         maxWidth,
+        masonryStyles,
+        windowStyles,
         style,
         normalizeValue
     ]);
 
+    /**
+     * Scoped style sheet with real media queries for the container and responsive items
+     * Only generated for the scoped stylesheet strategy
+     */
+    const scopedStylesheet = useMemo(() => {
+        if (!isScopedStylesheet) {
+            return "";
+        }
+
+        const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+        return [
+            generateContainerBreakpointStyles(
+                applyFluidValues(runtimeProps, fluidValues, breakpointConfigs),
+                `.${widgetId}`,
+                useNamedAreas,
+                breakpointConfigs,
+                mode
+            ),
+            generateItemBreakpointStyles(gridItems, widgetId, breakpointConfigs, mode)
+        ]
+            .filter(Boolean)
+            .join("\n");
+    }, [
+        isScopedStylesheet,
+        responsiveMode,
+        runtimeProps,
+        fluidValues,
+        widgetId,
+        useNamedAreas,
+        breakpointConfigs,
+        gridItems
+    ]);
+
     /**
      * Handle responsive breakpoint changes
      * Debounced to prevent excessive updates during resize
+     * Container modes observe the grid element, other modes the window
      */
     useEffect(() => {
-        const updateBreakpoint = () => {
-            const width = window.innerWidth;
-            const newBreakpointSize = getActiveBreakpoint(width);
+        // Container queries match the grid's content box, so its padding is left out
+        const measureWidth = (entry?: ResizeObserverEntry): number => {
+            if (isContainerQueryMode && containerRef.current) {
+                if (entry) {
+                    return Math.round(entry.contentBoxSize?.[0]?.inlineSize ?? entry.contentRect.width);
+                }
+                const computed = window.getComputedStyle(containerRef.current);
+                const padding = (parseFloat(computed.paddingLeft) || 0) + (parseFloat(computed.paddingRight) || 0);
+                return Math.round(containerRef.current.clientWidth - padding);
+            }
+            return window.innerWidth;
+        };
+
+        const updateBreakpoint = (width: number, force = false) => {
+            const newBreakpointSize = getActiveBreakpoint(width, breakpointConfigs);
+
+            // The scoped style sheet switches layouts itself, so React only
+            // needs to know when a breakpoint is crossed (ARIA and data attributes)
+            if (
+                isScopedStylesheet &&
+                !force &&
+                getActiveBreakpoint(currentWidthRef.current, breakpointConfigs) === newBreakpointSize
+            ) {
+                currentWidthRef.current = width;
+                return;
+            }
 
             // Update ref immediately to prevent race conditions
             currentWidthRef.current = width;
@@ -720,43 +1157,104 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             // Use React's batching to update both states together
             setCurrentWidth(width);
             setActiveBreakpointSize(newBreakpointSize);
+            setIsBreakpointMeasured(true);
         };
 
-        const debouncedUpdate = () => {
+        const debouncedUpdate = (width: number) => {
             if (resizeTimeoutRef.current) {
                 clearTimeout(resizeTimeoutRef.current);
             }
-            resizeTimeoutRef.current = setTimeout(updateBreakpoint, RESIZE_DEBOUNCE_DELAY);
+            resizeTimeoutRef.current = setTimeout(() => updateBreakpoint(width), RESIZE_DEBOUNCE_DELAY);
         };
 
         // Initial setup
-        updateBreakpoint();
+        updateBreakpoint(measureWidth(), true);
 
         // For instant viewport changes (like Studio Pro button), also handle resize immediately
-        const handleResize = () => {
-            const newWidth = window.innerWidth;
+        const handleResize = (entry?: ResizeObserverEntry) => {
+            const newWidth = measureWidth(entry);
             const oldWidth = currentWidthRef.current;
             const widthDiff = Math.abs(newWidth - oldWidth);
 
             // If viewport changed by more than threshold, update immediately
             // This catches instant viewport switches like Studio Pro responsive buttons
             if (widthDiff > LAYOUT.VIEWPORT_CHANGE_THRESHOLD) {
-                updateBreakpoint();
+                updateBreakpoint(newWidth);
             } else {
                 // For gradual resizing, use debounced update
-                debouncedUpdate();
+                debouncedUpdate(newWidth);
             }
         };
 
-        window.addEventListener("resize", handleResize);
+        // Container queries: measure the grid's own box
+        if (isContainerQueryMode && containerRef.current && typeof ResizeObserver !== "undefined") {
+            const resizeObserver = new ResizeObserver(entries => handleResize(entries[entries.length - 1]));
+            resizeObserver.observe(containerRef.current);
+
+            return () => {
+                if (resizeTimeoutRef.current) {
+                    clearTimeout(resizeTimeoutRef.current);
+                }
+                resizeObserver.disconnect();
+            };
+        }
+
+        const handleWindowResize = (): void => handleResize();
+        window.addEventListener("resize", handleWindowResize);
 
         return () => {
             if (resizeTimeoutRef.current) {
                 clearTimeout(resizeTimeoutRef.current);
             }
-            window.removeEventListener("resize", handleResize);
+            window.removeEventListener("resize", handleWindowResize);
         };
-    }, []);
+    }, [isContainerQueryMode, isScopedStylesheet, breakpointConfigs]);
+
+    /**
+     * Breakpoint reported to the Mendix model
+     * Cascade mode reports the breakpoint whose settings are in effect
+     */
+    const effectiveBreakpointSize = useMemo(
+        () =>
+            enableBreakpoints
+                ? getEffectiveBreakpoint(
+                      getResponsiveMode(responsiveMode),
+                      currentWidth,
+                      activeBreakpointSize,
+                      runtimeProps,
+                      breakpointConfigs
+                  )
+                : activeBreakpointSize,
+        [enableBreakpoints, responsiveMode, currentWidth, activeBreakpointSize, runtimeProps, breakpointConfigs]
+    );
+
+    /**
+     * Report breakpoint changes to the breakpoint attribute and action
+     * Waits for the first measurement so the initial default is never reported
+     */
+    useEffect(() => {
+        // The action should see the attribute value, so wait until the attribute is loaded
+        if (!isBreakpointMeasured || breakpointAttribute?.status === "loading") {
+            return;
+        }
+
+        if (
+            breakpointAttribute?.status === "available" &&
+            !breakpointAttribute.readOnly &&
+            breakpointAttribute.value !== effectiveBreakpointSize
+        ) {
+            breakpointAttribute.setValue(effectiveBreakpointSize);
+        }
+
+        if (reportedBreakpointRef.current === effectiveBreakpointSize) {
+            return;
+        }
+        reportedBreakpointRef.current = effectiveBreakpointSize;
+
+        if (onBreakpointChange?.canExecute && !onBreakpointChange.isExecuting) {
+            onBreakpointChange.execute();
+        }
+    }, [isBreakpointMeasured, effectiveBreakpointSize, breakpointAttribute, onBreakpointChange]);
 
     /**
      * Get active grid configuration for the current breakpoint
@@ -767,7 +1265,8 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         const baseConfig = {
             areas: useNamedAreas ? normalizeValue(gridTemplateAreas) : undefined,
             columns: normalizeValue(gridTemplateColumns) || "1fr",
-            rows: normalizeValue(gridTemplateRows) || "auto"
+            rows: normalizeValue(gridTemplateRows) || "auto",
+            autoFlow: (autoFlow || "row") as string
         };
 
         if (!enableBreakpoints) {
@@ -780,16 +1279,18 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         // Use ref value for immediate access to prevent race conditions
         const width = currentWidthRef.current || currentWidth;
 
-        forEachEnabledBreakpoint(runtimeProps, (config, _getProperty, getNormalizedProperty) => {
-            if (width >= BREAKPOINT_CONFIGS.find(bp => bp.size === config.size)!.minWidth) {
+        forEachEnabledBreakpoint(runtimeProps, (config, getProperty, getNormalizedProperty) => {
+            if (width >= breakpointConfigs.find(bp => bp.size === config.size)!.minWidth) {
                 const areas = getNormalizedProperty("Areas");
                 const columns = getNormalizedProperty("Columns");
                 const rows = getNormalizedProperty("Rows");
+                const bpAutoFlow = getProperty("AutoFlow") as string | undefined;
 
                 activeConfig = {
                     areas: useNamedAreas ? areas || activeConfig.areas : undefined,
                     columns: columns || activeConfig.columns,
-                    rows: rows || activeConfig.rows
+                    rows: rows || activeConfig.rows,
+                    autoFlow: bpAutoFlow || activeConfig.autoFlow
                 };
             }
         });
@@ -798,55 +1299,16 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
     }, [
         enableBreakpoints,
         currentWidth,
+        breakpointConfigs,
         gridTemplateAreas,
         gridTemplateColumns,
         gridTemplateRows,
+        autoFlow,
         useNamedAreas,
         runtimeProps,
         normalizeValue
     ]);
 
-    /**
-     * Calculate grid dimensions for ARIA attributes
-     * Provides row/column count for screen readers
-     */
-    const gridDimensions = useMemo(() => {
-        const activeConfig = getActiveGridConfig();
-
-        // Try to determine grid dimensions from template columns/rows
-        const getTrackCount = (template: string): number => {
-            if (!template || template === "none" || template === "auto") {
-                return 1;
-            }
-
-            // Handle repeat() syntax: repeat(3, 1fr) -> 3 columns
-            const repeatMatch = template.match(/repeat\(\s*(\d+)\s*,/);
-            if (repeatMatch) {
-                return parseInt(repeatMatch[1], 10);
-            }
-
-            // Count space-separated values as tracks: "1fr 1fr 200px" -> 3 columns
-            const tracks = template
-                .trim()
-                .split(/\s+/)
-                .filter(track => track && track !== "none");
-            return Math.max(1, tracks.length);
-        };
-
-        const columnCount = getTrackCount(activeConfig.columns);
-
-        // For rows, if we have explicit template, count those
-        // Otherwise estimate based on items and columns
-        let rowCount = 1;
-        if (activeConfig.rows && activeConfig.rows !== "auto") {
-            rowCount = getTrackCount(activeConfig.rows);
-        } else if (columnCount > 0) {
-            rowCount = Math.ceil(items.length / columnCount);
-        }
-
-        return { columnCount, rowCount };
-    }, [items.length, getActiveGridConfig]);
-
     /**
      * Get active placement for responsive items
      * Determines which placement configuration to use based on current breakpoint
@@ -879,7 +1341,7 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             const width = currentWidthRef.current || currentWidth;
 
             forEachEnabledItemBreakpoint(item, (config, getProperty, getNormalizedProperty) => {
-                const bpConfig = BREAKPOINT_CONFIGS.find(bp => bp.size === config.size);
+                const bpConfig = breakpointConfigs.find(bp => bp.size === config.size);
                 if (bpConfig && width >= bpConfig.minWidth) {
                     activePlacement = {
                         placementType: (getProperty("PlacementType") as string) || activePlacement.placementType,
@@ -894,7 +1356,208 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
 
             return activePlacement;
         },
-        [currentWidth, normalizeValue]
+        [currentWidth, breakpointConfigs, normalizeValue]
+    );
+
+    // Report rejected dynamic values and areas once per value instead of on every render
+    useEffect(() => {
+        if (templateWarning) {
+            templateWarning.split("\n").forEach(warning => warnOnce(`CSSGrid: ${warning}`));
+        }
+    }, [templateWarning]);
+
+    /**
+     * Warn when subgrid is enabled but cannot apply
+     * The parent item must be a subgrid item of another CSS Grid on the same axis
+     */
+    useEffect(() => {
+        if (!subgridColumns && !subgridRows) {
+            return;
+        }
+
+        if (typeof CSS !== "undefined" && !CSS.supports("grid-template-columns", "subgrid")) {
+            warnOnce("CSSGrid: This browser does not support subgrid - using the grid's own tracks");
+            return;
+        }
+
+        const parentItem = containerRef.current?.parentElement;
+        if (subgridColumns && !parentItem?.classList.contains("css-grid__item--subgrid-columns")) {
+            warnOnce(
+                "CSSGrid: Subgrid Columns is enabled, but the grid is not placed directly in a parent grid item with Subgrid Columns - using its own columns"
+            );
+        }
+        if (subgridRows && !parentItem?.classList.contains("css-grid__item--subgrid-rows")) {
+            warnOnce(
+                "CSSGrid: Subgrid Rows is enabled, but the grid is not placed directly in a parent grid item with Subgrid Rows - using its own rows"
+            );
+        }
+    }, [subgridColumns, subgridRows]);
+
+    /**
+     * Measure how many parent tracks a nested subgrid inherits
+     * Re-measured whenever the parent item resizes, as its span can change with the parent's breakpoints
+     */
+    useEffect(() => {
+        const parentItem = containerRef.current?.parentElement;
+        const parentGrid = parentItem?.parentElement;
+        const supportsSubgrid = typeof CSS === "undefined" || CSS.supports("grid-template-columns", "subgrid");
+        const inheritsColumns =
+            subgridColumns && supportsSubgrid && !!parentItem?.classList.contains("css-grid__item--subgrid-columns");
+        const inheritsRows =
+            subgridRows && supportsSubgrid && !!parentItem?.classList.contains("css-grid__item--subgrid-rows");
+
+        if (!(inheritsColumns || inheritsRows) || !parentItem || !parentGrid) {
+            setSubgridTracks(prev => (prev.columns || prev.rows ? { columns: 0, rows: 0 } : prev));
+            return;
+        }
+
+        const measureSubgridTracks = (): void => {
+            const parentPlacement = measureLayoutPlacement(parentGrid, parentItem);
+            const columns = inheritsColumns ? parentPlacement.columnSpan : 0;
+            const rows = inheritsRows ? parentPlacement.rowSpan : 0;
+            setSubgridTracks(prev => (prev.columns === columns && prev.rows === rows ? prev : { columns, rows }));
+        };
+
+        measureSubgridTracks();
+
+        if (typeof ResizeObserver === "undefined") {
+            return;
+        }
+        const resizeObserver = new ResizeObserver(measureSubgridTracks);
+        resizeObserver.observe(parentItem);
+        return () => resizeObserver.disconnect();
+    }, [subgridColumns, subgridRows]);
+
+    /**
+     * Row span of an item in the measured masonry fallback
+     * Items that were never measured (virtualized placeholders) use the average span
+     */
+    const getMasonrySpan = useCallback(
+        (index: number): number => {
+            if (masonrySpans[index]) {
+                return masonrySpans[index];
+            }
+            const measured = Object.values(masonrySpans);
+            return measured.length > 0
+                ? Math.round(measured.reduce((total, span) => total + span, 0) / measured.length)
+                : 1;
+        },
+        [masonrySpans]
+    );
+
+    /**
+     * Placement of an item in the measured masonry fallback
+     * Columns keep their configured placement, rows become a span of base rows
+     */
+    const getMasonryPlacement = useCallback(
+        (placement: GridItemPlacement, index: number): GridItemPlacement => {
+            const hasColumnLines = placement.placementType === "coordinates" || placement.placementType === "span";
+            return {
+                placementType: "coordinates",
+                columnStart: hasColumnLines ? placement.columnStart : "auto",
+                columnEnd: hasColumnLines ? placement.columnEnd : "auto",
+                rowStart: "auto",
+                rowEnd: `span ${getMasonrySpan(index)}`
+            };
+        },
+        [getMasonrySpan]
+    );
+
+    /**
+     * Measure the columns of an auto-fill/auto-fit template
+     * The placement engine cannot resolve the repetitions, so ARIA positions and keyboard
+     * navigation use the rendered column count. Re-measured when the grid resizes.
+     */
+    const activeColumnsTemplate = getActiveGridConfig().columns;
+    const isAutoRepeatColumns = hasAutoRepeatTracks(activeColumnsTemplate) && !isWindowed && !subgridTracks.columns;
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isAutoRepeatColumns || !container) {
+            setAutoRepeatColumnCount(0);
+            return;
+        }
+
+        const measure = (): void => setAutoRepeatColumnCount(Math.max(1, getGridTracks(container).columns.length));
+        measure();
+
+        if (typeof ResizeObserver === "undefined") {
+            return;
+        }
+        const resizeObserver = new ResizeObserver(measure);
+        resizeObserver.observe(container);
+        return () => resizeObserver.disconnect();
+    }, [isAutoRepeatColumns, activeColumnsTemplate]);
+
+    /**
+     * Resolve where every visible item ends up in the grid
+     * Runs the auto-placement engine, so spans, named areas, dense flow and
+     * items hidden at the current breakpoint are accounted for
+     */
+    const gridPlacement = useMemo(() => {
+        const activeConfig = getActiveGridConfig();
+        const placementItems = shownItemIndices
+            .map(index => ({ item: gridItems[index], index }))
+            .map(({ item, index }) => {
+                const layoutPlacement = isLayoutEditingEnabled ? savedLayout[getLayoutItemKey(item, index)] : undefined;
+                const placement = layoutPlacement
+                    ? getLayoutGridPlacement(layoutPlacement)
+                    : getActiveItemPlacement(item);
+                return {
+                    index,
+                    placement: isMasonryFallback ? getMasonryPlacement(placement, index) : placement
+                };
+            });
+
+        // A nested subgrid has exactly the tracks its parent item spans
+        return computeGridPlacement({
+            columns: subgridTracks.columns
+                ? `repeat(${subgridTracks.columns}, 1fr)`
+                : isWindowed
+                ? `repeat(${windowMetrics.columnCount}, 1fr)`
+                : autoRepeatColumnCount
+                ? `repeat(${autoRepeatColumnCount}, 1fr)`
+                : activeConfig.columns,
+            rows: subgridTracks.rows ? `repeat(${subgridTracks.rows}, auto)` : activeConfig.rows,
+            areas: activeConfig.areas,
+            autoFlow: activeConfig.autoFlow,
+            items: placementItems
+        });
+    }, [
+        gridItems,
+        shownItemIndices,
+        isLayoutEditingEnabled,
+        savedLayout,
+        subgridTracks,
+        isWindowed,
+        windowMetrics,
+        autoRepeatColumnCount,
+        isMasonryFallback,
+        getMasonryPlacement,
+        getActiveGridConfig,
+        getActiveItemPlacement
+    ]);
+
+    // A subgrid cannot add implicit tracks, so items that need more are squeezed into the last one
+    useEffect(() => {
+        if (subgridTracks.columns && gridPlacement.columnCount > subgridTracks.columns) {
+            warnOnce(
+                `CSSGrid: Items need ${gridPlacement.columnCount} columns, but the parent item only spans ${subgridTracks.columns} - widen its span or area`
+            );
+        }
+        if (subgridTracks.rows && gridPlacement.rowCount > subgridTracks.rows) {
+            warnOnce(
+                `CSSGrid: Items need ${gridPlacement.rowCount} rows, but the parent item only spans ${subgridTracks.rows} - widen its span or area`
+            );
+        }
+    }, [gridPlacement, subgridTracks]);
+
+    /**
+     * Grid dimensions for ARIA attributes
+     * Provides row/column count for screen readers
+     */
+    const gridDimensions = useMemo(
+        () => ({ columnCount: gridPlacement.columnCount, rowCount: gridPlacement.rowCount }),
+        [gridPlacement]
     );
 
     /**
@@ -902,8 +1565,8 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
      * Optimizes performance for grids with many items by only rendering visible ones
      */
     const setupVirtualization = useCallback(() => {
-        if (!shouldVirtualize || !containerRef.current) {
-            setVisibleItems(new Set(Array.from({ length: items.length }, (_, i) => i)));
+        if (!shouldVirtualize || isWindowed || !containerRef.current) {
+            setVisibleItems(new Set(Array.from({ length: gridItems.length }, (_, i) => i)));
             return;
         }
 
@@ -953,8 +1616,8 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             }
         );
 
-        const gridItems = containerRef.current.querySelectorAll("[data-grid-index]");
-        gridItems.forEach(item => observerRef.current!.observe(item));
+        const gridElements = containerRef.current.querySelectorAll("[data-grid-index]");
+        gridElements.forEach(item => observerRef.current!.observe(item));
 
         return () => {
             if (observerRef.current) {
@@ -962,7 +1625,7 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 observerRef.current = null;
             }
         };
-    }, [shouldVirtualize, items.length]);
+    }, [shouldVirtualize, isWindowed, gridItems.length]);
 
     // Initialize virtualization
     useEffect(() => {
@@ -1001,56 +1664,699 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
     }, []);
 
     /**
-     * Container role
-     * Uses semantic roles for better accessibility
+     * Measure item heights for the masonry fallback
+     * Items are re-measured whenever their size changes, e.g. when images load.
+     * Placeholders of virtualized items are skipped so they keep their last measured span.
      */
-    const containerRole = useMemo(() => {
-        if (role) {
-            return role;
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isMasonryFallback || !container || typeof ResizeObserver === "undefined") {
+            return;
         }
-        return items.length > LARGE_GRID_THRESHOLD || useNamedAreas ? "grid" : "group";
-    }, [role, items.length, useNamedAreas]);
 
-    /**
-     * Render grid items
-     * Creates grid items with proper placement, styling, and responsive behavior
-     */
-    const renderGridItems = useCallback(() => {
-        const allDefinedAreas = getAllDefinedAreas();
-        const activeConfig = getActiveGridConfig();
+        const measureItems = (elements: Element[]): void => {
+            const rowGapSize = parseFloat(window.getComputedStyle(container).rowGap) || 0;
+            const measured: Record<number, number> = {};
 
-        return items.map((item, index) => {
-            const isVisible = !shouldVirtualize || visibleItems.has(index) || !isInitialized;
-            const runtimeItem = validateRuntimeGridItem(item);
-            const itemName = getItemVariableName(runtimeItem, index);
+            elements.forEach(element => {
+                if (element.classList.contains("css-grid__item--placeholder")) {
+                    return;
+                }
+                const index = parseInt(element.getAttribute("data-grid-index") || "0", 10);
+                measured[index] = getMasonryRowSpan(element.getBoundingClientRect().height, masonryBaseRow, rowGapSize);
+            });
 
-            // Build base styles
-            let itemStyles: CSSProperties = {};
+            setMasonrySpans(prev => {
+                const changed = Object.keys(measured).some(key => prev[Number(key)] !== measured[Number(key)]);
+                return changed ? { ...prev, ...measured } : prev;
+            });
+        };
 
-            // Handle placement based on responsive settings
-            if (runtimeItem.enableResponsive && enableBreakpoints) {
-                // Responsive items use CSS variables
-                const itemCssVars = buildItemCSSVariables(runtimeItem);
-                itemStyles = {
-                    ...itemCssVars
-                } as CSSProperties;
-            } else {
-                // Non-responsive items get direct CSS properties
-                itemStyles = {
-                    justifySelf: runtimeItem.justifySelf !== "auto" ? runtimeItem.justifySelf : undefined,
-                    alignSelf: runtimeItem.alignSelf !== "auto" ? runtimeItem.alignSelf : undefined,
-                    zIndex: runtimeItem.zIndex || undefined
-                };
-                // Non-responsive items get direct CSS properties
-                let placement = getActiveItemPlacement(runtimeItem);
+        const itemElements = Array.from(container.querySelectorAll(":scope > [data-grid-index]"));
+        const resizeObserver = new ResizeObserver(entries => measureItems(entries.map(entry => entry.target)));
+        itemElements.forEach(element => resizeObserver.observe(element));
+        measureItems(itemElements);
 
-                // Validate area placement
-                if (placement.placementType === "area" && placement.gridArea) {
-                    // Check if area exists in current configuration
-                    const currentAreas = activeConfig.areas ? parseGridAreas(activeConfig.areas) : null;
-                    const currentAreaNames = currentAreas
-                        ? new Set(currentAreas.flat().filter(a => a !== "."))
-                        : new Set<string>();
+        return () => resizeObserver.disconnect();
+    }, [isMasonryFallback, masonryBaseRow, gridItems, visibleItems]);
+
+    /**
+     * Cache the size of rendered items for their placeholders
+     * Sizes are kept per breakpoint; a breakpoint change starts a new cache
+     * because items take a different size in the new layout.
+     */
+    useEffect(() => {
+        const container = containerRef.current;
+        if (placeholderSizesRef.current.breakpoint !== activeBreakpointSize) {
+            placeholderSizesRef.current = { breakpoint: activeBreakpointSize, sizes: {} };
+        }
+        if (!shouldVirtualize || isWindowed || !container || typeof ResizeObserver === "undefined") {
+            return;
+        }
+
+        const measureItems = (elements: Element[]): void => {
+            const sizes: Record<string, ItemSize> = {};
+            elements.forEach(element => {
+                const itemKey = element.getAttribute("data-item-key");
+                if (itemKey && !element.classList.contains("css-grid__item--placeholder")) {
+                    sizes[itemKey] = measureItemSize(element);
+                }
+            });
+            placeholderSizesRef.current = {
+                breakpoint: activeBreakpointSize,
+                sizes: { ...placeholderSizesRef.current.sizes, ...sizes }
+            };
+        };
+
+        const itemElements = Array.from(container.querySelectorAll(":scope > [data-item-key]"));
+        const resizeObserver = new ResizeObserver(entries => measureItems(entries.map(entry => entry.target)));
+        itemElements.forEach(element => resizeObserver.observe(element));
+
+        return () => resizeObserver.disconnect();
+    }, [shouldVirtualize, isWindowed, activeBreakpointSize, gridItems, visibleItems]);
+
+    /**
+     * Measure columns and row height of a windowed grid
+     * Re-measured when the grid resizes, as auto-fill templates change their column count
+     */
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isWindowed || !container) {
+            return;
+        }
+
+        const firstItemTrack = windowRange.firstRow > 0 ? 1 : 0;
+        const measure = (): void => {
+            setWindowMetrics(prev => {
+                const next = measureWindowMetrics(container, firstItemTrack, prev);
+                return next.columnCount === prev.columnCount &&
+                    next.rowHeight === prev.rowHeight &&
+                    next.rowGap === prev.rowGap
+                    ? prev
+                    : next;
+            });
+        };
+
+        measure();
+
+        if (typeof ResizeObserver === "undefined") {
+            return;
+        }
+        const resizeObserver = new ResizeObserver(measure);
+        resizeObserver.observe(container);
+        return () => resizeObserver.disconnect();
+    }, [isWindowed, windowRange.firstRow]);
+
+    /**
+     * Track the visible row range of a windowed grid
+     * Listens to the configured scroll container, the nearest scrolling ancestor or the page
+     */
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isWindowed || !container) {
+            return;
+        }
+
+        const scrollParent = getScrollParent(container, scrollParentSelector);
+        const scrollTarget: HTMLElement | Window = scrollParent || window;
+        let frame = 0;
+
+        const updateRange = (): void => {
+            frame = 0;
+            const viewport = getScrollViewport(container, scrollParent);
+            const next = getVisibleRowRange(
+                viewport.offset,
+                viewport.height,
+                windowMetrics,
+                windowRowCount,
+                VIRTUALIZATION_BUFFER_ROWS
+            );
+            setWindowRange(prev => (prev.firstRow === next.firstRow && prev.lastRow === next.lastRow ? prev : next));
+        };
+        const scheduleUpdate = (): void => {
+            if (!frame) {
+                frame = window.requestAnimationFrame(updateRange);
+            }
+        };
+
+        updateRange();
+        scrollTarget.addEventListener("scroll", scheduleUpdate, { passive: true });
+        window.addEventListener("resize", scheduleUpdate);
+
+        return () => {
+            scrollTarget.removeEventListener("scroll", scheduleUpdate);
+            window.removeEventListener("resize", scheduleUpdate);
+            if (frame) {
+                window.cancelAnimationFrame(frame);
+            }
+        };
+    }, [isWindowed, scrollParentSelector, windowMetrics, windowRowCount]);
+
+    /**
+     * Read the stored scroll position once the grid is initialized
+     * The rows or items around the stored first item are rendered right away,
+     * so the grid can scroll to it without showing placeholders first
+     */
+    useEffect(() => {
+        if (!isInitialized || !isScrollRestoreEnabled || hasRestoredScrollRef.current) {
+            return;
+        }
+        if (scrollRestoration === "attribute" && scrollStateAttribute?.status === "loading") {
+            return;
+        }
+        // Wait until the datasource is loaded; a position beyond the loaded list is then outdated
+        if (itemsSource === "datasource" && dataSource?.status !== "available") {
+            return;
+        }
+        hasRestoredScrollRef.current = true;
+
+        const storedState = parseScrollState(
+            scrollRestoration === "attribute" ? scrollStateAttribute?.value : readSessionValue(scrollStorageKey)
+        );
+        if (!storedState || storedState.firstIndex >= gridItems.length) {
+            return;
+        }
+
+        pendingScrollStateRef.current = storedState;
+        if (isWindowed) {
+            const position = shownItemPositions.get(storedState.firstIndex) ?? storedState.firstIndex;
+            const row = Math.floor(position / windowMetrics.columnCount);
+            setWindowRange({
+                firstRow: Math.max(0, row - VIRTUALIZATION_BUFFER_ROWS),
+                lastRow: Math.min(windowRowCount - 1, row + VIRTUALIZATION_BUFFER_ROWS)
+            });
+        } else {
+            const firstIndex = Math.max(0, storedState.firstIndex - VIRTUALIZATION_BUFFER_SIZE);
+            const lastIndex = Math.min(gridItems.length, storedState.firstIndex + SCROLL_RESTORE_ITEM_COUNT);
+            setVisibleItems(prev => {
+                const next = new Set(prev);
+                for (let index = firstIndex; index < lastIndex; index++) {
+                    next.add(index);
+                }
+                return next;
+            });
+        }
+    }, [
+        isInitialized,
+        isScrollRestoreEnabled,
+        scrollRestoration,
+        scrollStateAttribute,
+        scrollStorageKey,
+        itemsSource,
+        dataSource?.status,
+        gridItems.length,
+        isWindowed,
+        windowMetrics,
+        windowRowCount,
+        shownItemPositions
+    ]);
+
+    // Scroll to the stored position once the restored region is rendered
+    useEffect(() => {
+        const storedState = pendingScrollStateRef.current;
+        const container = containerRef.current;
+        if (!storedState || !container) {
+            return;
+        }
+        pendingScrollStateRef.current = null;
+        restoreScrollState(container, getScrollParent(container, scrollParentSelector), storedState);
+    }, [visibleItems, windowRange, scrollParentSelector]);
+
+    /**
+     * Store the scroll position while the user scrolls
+     * Saved when scrolling pauses, so a quick succession of scroll events writes once
+     */
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!isScrollRestoreEnabled || !container) {
+            return;
+        }
+
+        const scrollParent = getScrollParent(container, scrollParentSelector);
+        const scrollTarget: HTMLElement | Window = scrollParent || window;
+        let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+        const saveScrollState = (): void => {
+            saveTimeout = null;
+            // Do not overwrite the stored position before it has been restored
+            if (pendingScrollStateRef.current || !hasRestoredScrollRef.current) {
+                return;
+            }
+            const state = captureScrollState(container, scrollParent);
+            if (!state) {
+                return;
+            }
+            const value = serializeScrollState(state);
+            if (scrollRestoration === "attribute") {
+                if (scrollStateAttribute && !scrollStateAttribute.readOnly && scrollStateAttribute.value !== value) {
+                    scrollStateAttribute.setValue(value);
+                }
+            } else {
+                writeSessionValue(scrollStorageKey, value);
+            }
+        };
+        const scheduleSave = (): void => {
+            if (saveTimeout) {
+                clearTimeout(saveTimeout);
+            }
+            saveTimeout = setTimeout(saveScrollState, SCROLL_STATE_SAVE_DELAY);
+        };
+
+        scrollTarget.addEventListener("scroll", scheduleSave, { passive: true });
+
+        return () => {
+            scrollTarget.removeEventListener("scroll", scheduleSave);
+            if (saveTimeout) {
+                clearTimeout(saveTimeout);
+            }
+        };
+    }, [isScrollRestoreEnabled, scrollParentSelector, scrollRestoration, scrollStateAttribute, scrollStorageKey]);
+
+    /**
+     * Container role
+     * Uses semantic roles for better accessibility
+     */
+    const containerRole = useMemo(() => {
+        if (role) {
+            return role;
+        }
+        return gridItems.length > LARGE_GRID_THRESHOLD || useNamedAreas ? "grid" : "group";
+    }, [role, gridItems.length, useNamedAreas]);
+
+    /**
+     * Index of the cell that holds the roving tabindex in a grid
+     * Tracked by item key so it survives reordering; falls back to the
+     * first cell when the active item is hidden at the current breakpoint
+     */
+    const activeCellIndex = useMemo(() => {
+        if (containerRole !== "grid") {
+            return null;
+        }
+
+        const activeItem = gridPlacement.items.find(
+            placed => getLayoutItemKey(gridItems[placed.index], placed.index) === activeCellKey
+        );
+        return activeItem ? activeItem.index : findGridEdgeItem(gridPlacement, "start");
+    }, [containerRole, gridPlacement, gridItems, activeCellKey]);
+
+    /**
+     * Get the current layout placement of an item
+     * Items without a stored entry are measured where the grid placed them
+     */
+    const getCurrentLayoutPlacement = useCallback(
+        (index: number) => {
+            const stored = savedLayout[getLayoutItemKey(gridItems[index], index)];
+            if (stored) {
+                return stored;
+            }
+
+            const itemElement = containerRef.current?.querySelector<HTMLElement>(`[data-grid-index="${index}"]`);
+            if (!containerRef.current || !itemElement) {
+                return null;
+            }
+            return measureLayoutPlacement(containerRef.current, itemElement);
+        },
+        [savedLayout, gridItems]
+    );
+
+    /**
+     * Store a new placement for an item in the layout
+     * Writes the layout attribute, runs the layout change action and announces the change
+     */
+    const storeLayoutPlacement = useCallback(
+        (index: number, placement: LayoutPlacement, announcement: string) => {
+            if (!canEditLayout || !layoutAttribute) {
+                return;
+            }
+
+            const item = gridItems[index];
+            layoutAttribute.setValue(
+                serializeLayout({
+                    ...storedLayouts,
+                    [layoutBreakpointKey]: { ...savedLayout, [getLayoutItemKey(item, index)]: placement }
+                })
+            );
+
+            if (onLayoutChange?.canExecute && !onLayoutChange.isExecuting) {
+                onLayoutChange.execute();
+            }
+
+            setLayoutAnnouncement(`${getItemAccessibleLabel(item, index)} ${announcement}`);
+        },
+        [
+            canEditLayout,
+            layoutAttribute,
+            onLayoutChange,
+            storedLayouts,
+            layoutBreakpointKey,
+            savedLayout,
+            gridItems,
+            getItemAccessibleLabel
+        ]
+    );
+
+    /**
+     * Move an item to a new start cell, keeping its spans
+     */
+    const moveItemToCell = useCallback(
+        (index: number, cell: GridCell) => {
+            const current = getCurrentLayoutPlacement(index);
+            if (!containerRef.current || !current) {
+                return;
+            }
+
+            // Other shown items with a stored placement; a drop onto them shifts down to free rows
+            const itemKey = getLayoutItemKey(gridItems[index], index);
+            const occupied = shownItemIndices
+                .map(shownIndex => getLayoutItemKey(gridItems[shownIndex], shownIndex))
+                .filter(key => key !== itemKey && savedLayout[key])
+                .map(key => savedLayout[key]);
+
+            const columnCount = getGridTracks(containerRef.current).columns.length;
+            const next = shiftLayoutPlacement(moveLayoutPlacement(current, cell, columnCount), occupied);
+            if (next.columnStart === current.columnStart && next.rowStart === current.rowStart) {
+                return;
+            }
+
+            storeLayoutPlacement(index, next, `moved to column ${next.columnStart}, row ${next.rowStart}`);
+        },
+        [getCurrentLayoutPlacement, storeLayoutPlacement, gridItems, shownItemIndices, savedLayout]
+    );
+
+    /**
+     * Calculate the resized placement of an item within its span limits
+     */
+    const getResizedPlacement = useCallback(
+        (index: number, placement: LayoutPlacement, columnSpan: number, rowSpan: number): LayoutPlacement => {
+            const columnCount = containerRef.current ? getGridTracks(containerRef.current).columns.length : 1;
+            return resizeLayoutPlacement(placement, columnSpan, rowSpan, getSpanLimits(gridItems[index]), columnCount);
+        },
+        [gridItems]
+    );
+
+    /**
+     * Store a resized placement when the spans changed
+     */
+    const commitResize = useCallback(
+        (index: number, current: LayoutPlacement, next: LayoutPlacement) => {
+            if (next.columnSpan === current.columnSpan && next.rowSpan === current.rowSpan) {
+                return;
+            }
+            storeLayoutPlacement(index, next, `resized to ${next.columnSpan} columns by ${next.rowSpan} rows`);
+        },
+        [storeLayoutPlacement]
+    );
+
+    /**
+     * Pointer handlers for resize handles
+     * The handle captures the pointer, so move and up events reach the grid even outside the item
+     */
+    const handleResizePointerDown = useCallback(
+        (event: React.PointerEvent<HTMLDivElement>) => {
+            const handle = (event.target as HTMLElement).closest?.("[data-resize-axis]") as HTMLElement | null;
+            const itemElement = handle?.closest("[data-grid-index]");
+            if (!canResizeItems || !handle || !itemElement) {
+                return;
+            }
+
+            const index = parseInt(itemElement.getAttribute("data-grid-index") || "0", 10);
+            const placement = getCurrentLayoutPlacement(index);
+            if (!placement) {
+                return;
+            }
+
+            event.preventDefault();
+            event.stopPropagation();
+            handle.setPointerCapture(event.pointerId);
+            resizeStartRef.current = { index, axis: handle.getAttribute("data-resize-axis") || "both", placement };
+            setResizePreview({ index, placement });
+        },
+        [canResizeItems, getCurrentLayoutPlacement]
+    );
+
+    const handleResizePointerMove = useCallback(
+        (event: React.PointerEvent<HTMLDivElement>) => {
+            const start = resizeStartRef.current;
+            if (!start || !containerRef.current) {
+                return;
+            }
+
+            // Snap the dragged edge to the track under the pointer
+            const cell = getGridCellFromPoint(containerRef.current, event.clientX, event.clientY);
+            const { placement, axis, index } = start;
+            const columnSpan = axis === "row" ? placement.columnSpan : cell.column - placement.columnStart + 1;
+            const rowSpan = axis === "column" ? placement.rowSpan : cell.row - placement.rowStart + 1;
+            const next = getResizedPlacement(index, placement, columnSpan, rowSpan);
+
+            setResizePreview(prev =>
+                prev && prev.placement.columnSpan === next.columnSpan && prev.placement.rowSpan === next.rowSpan
+                    ? prev
+                    : { index, placement: next }
+            );
+        },
+        [getResizedPlacement]
+    );
+
+    const handleResizePointerUp = useCallback(() => {
+        const start = resizeStartRef.current;
+        if (!start) {
+            return;
+        }
+
+        if (resizePreview && resizePreview.index === start.index) {
+            commitResize(start.index, start.placement, resizePreview.placement);
+        }
+        resizeStartRef.current = null;
+        setResizePreview(null);
+    }, [resizePreview, commitResize]);
+
+    /**
+     * Drag and drop handlers for editable layouts
+     * The grab offset keeps the item under the pointer where it was picked up
+     */
+    const handleDragStart = useCallback(
+        (event: React.DragEvent<HTMLDivElement>) => {
+            const target = event.target as HTMLElement;
+            const indexAttr = target.getAttribute?.("data-grid-index");
+            if (resizeStartRef.current) {
+                // Dragging a resize handle must not start moving the item
+                event.preventDefault();
+                return;
+            }
+            if (!canEditLayout || indexAttr === null || !containerRef.current) {
+                return;
+            }
+
+            const index = parseInt(indexAttr, 10);
+            const current = getCurrentLayoutPlacement(index);
+            const pointerCell = getGridCellFromPoint(containerRef.current, event.clientX, event.clientY);
+            dragOffsetRef.current = current
+                ? { column: pointerCell.column - current.columnStart, row: pointerCell.row - current.rowStart }
+                : { column: 0, row: 0 };
+
+            event.dataTransfer.effectAllowed = "move";
+            event.dataTransfer.setData("text/plain", String(index));
+            setDraggedIndex(index);
+        },
+        [canEditLayout, getCurrentLayoutPlacement]
+    );
+
+    const handleDragOver = useCallback(
+        (event: React.DragEvent<HTMLDivElement>) => {
+            if (draggedIndex === null) {
+                return;
+            }
+            event.preventDefault();
+            event.dataTransfer.dropEffect = "move";
+        },
+        [draggedIndex]
+    );
+
+    const handleDrop = useCallback(
+        (event: React.DragEvent<HTMLDivElement>) => {
+            if (draggedIndex === null || !containerRef.current) {
+                return;
+            }
+            event.preventDefault();
+
+            const pointerCell = getGridCellFromPoint(containerRef.current, event.clientX, event.clientY);
+            moveItemToCell(draggedIndex, {
+                column: pointerCell.column - dragOffsetRef.current.column,
+                row: pointerCell.row - dragOffsetRef.current.row
+            });
+            setDraggedIndex(null);
+        },
+        [draggedIndex, moveItemToCell]
+    );
+
+    const handleDragEnd = useCallback(() => {
+        setDraggedIndex(null);
+    }, []);
+
+    /**
+     * Keyboard commands for editable layouts
+     * Alt + arrow keys move the focused item by one cell,
+     * Alt + Shift + arrow keys grow or shrink its spans
+     *
+     * @returns Whether the event was handled
+     */
+    const handleLayoutKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLDivElement>): boolean => {
+            const target = event.target as HTMLElement;
+            const indexAttr = target.getAttribute?.("data-grid-index");
+            if (!canEditLayout || !event.altKey || indexAttr === null) {
+                return false;
+            }
+
+            const offsets: Record<string, GridCell> = {
+                ArrowUp: { column: 0, row: -1 },
+                ArrowDown: { column: 0, row: 1 },
+                ArrowLeft: { column: -1, row: 0 },
+                ArrowRight: { column: 1, row: 0 }
+            };
+            const offset = offsets[event.key];
+            if (!offset) {
+                return false;
+            }
+
+            const index = parseInt(indexAttr, 10);
+            const current = getCurrentLayoutPlacement(index);
+            if (current && event.shiftKey) {
+                if (canResizeItems) {
+                    const next = getResizedPlacement(
+                        index,
+                        current,
+                        current.columnSpan + offset.column,
+                        current.rowSpan + offset.row
+                    );
+                    commitResize(index, current, next);
+                }
+            } else if (current) {
+                moveItemToCell(index, {
+                    column: current.columnStart + offset.column,
+                    row: current.rowStart + offset.row
+                });
+            }
+
+            event.preventDefault();
+            return true;
+        },
+        [canEditLayout, canResizeItems, getCurrentLayoutPlacement, getResizedPlacement, commitResize, moveItemToCell]
+    );
+
+    /**
+     * Render grid items
+     * Creates grid items with proper placement, styling, and responsive behavior
+     */
+    const renderGridItems = useCallback(() => {
+        const allDefinedAreas = getAllDefinedAreas();
+        const activeConfig = getActiveGridConfig();
+
+        // Windowed grids only render the shown items of the rows in range.
+        // Other grids render every item whose visibility expressions allow it; items with a
+        // static Hidden flag stay in the DOM so the breakpoint classes can hide them.
+        // In DOM order mode items are rendered in their visual order.
+        const renderedIndices = isWindowed
+            ? shownItemIndices.slice(
+                  windowRange.firstRow * windowMetrics.columnCount,
+                  (windowRange.lastRow + 1) * windowMetrics.columnCount
+              )
+            : gridItems
+                  .map((item, index) =>
+                      isItemVisibleByExpression(item, activeBreakpointSize, enableBreakpoints) ? index : -1
+                  )
+                  .filter(index => index >= 0);
+
+        if (itemOrderMode === "dom" && !isWindowed) {
+            const getOrder = (index: number): number => getItemOrder(gridItems[index], orderBreakpoints);
+            renderedIndices.sort((a, b) => getOrder(a) - getOrder(b) || a - b);
+        }
+
+        // The active cell of a windowed grid stays mounted when its row scrolls out of range,
+        // so keyboard focus is not lost. It keeps its place in the DOM order.
+        const detachedIndex =
+            isWindowed &&
+            activeCellIndex !== null &&
+            shownItemPositions.has(activeCellIndex) &&
+            !renderedIndices.includes(activeCellIndex)
+                ? activeCellIndex
+                : null;
+        if (detachedIndex !== null) {
+            if (shownItemPositions.get(detachedIndex)! < windowRange.firstRow * windowMetrics.columnCount) {
+                renderedIndices.unshift(detachedIndex);
+            } else {
+                renderedIndices.push(detachedIndex);
+            }
+        }
+
+        return renderedIndices.map(index => {
+            const runtimeItem = gridItems[index];
+
+            // The active cell stays mounted so virtualization never drops keyboard focus
+            const isVisible =
+                !shouldVirtualize ||
+                isWindowed ||
+                visibleItems.has(index) ||
+                !isInitialized ||
+                index === activeCellIndex;
+            const itemKey = runtimeItem.objectId ? `grid-item-${runtimeItem.objectId}` : `grid-item-${index}`;
+            const itemName = getItemVariableName(runtimeItem, index);
+            const isResizing = resizePreview?.index === index;
+            const layoutPlacement = isResizing
+                ? resizePreview?.placement
+                : isLayoutEditingEnabled
+                ? savedLayout[getLayoutItemKey(runtimeItem, index)]
+                : undefined;
+
+            // Build base styles
+            let itemStyles: CSSProperties = {};
+
+            // Responsive items take alignment and size from CSS variables, also when a stored layout places them
+            const usesItemVariables = runtimeItem.enableResponsive && enableBreakpoints && !isScopedStylesheet;
+
+            // Handle placement based on responsive settings
+            if (layoutPlacement) {
+                // Stored layout overrides configured and responsive placement
+                itemStyles = {
+                    ...(usesItemVariables
+                        ? (buildItemCSSVariables(runtimeItem) as CSSProperties)
+                        : {
+                              justifySelf: runtimeItem.justifySelf !== "auto" ? runtimeItem.justifySelf : undefined,
+                              alignSelf: runtimeItem.alignSelf !== "auto" ? runtimeItem.alignSelf : undefined,
+                              zIndex: runtimeItem.zIndex || undefined,
+                              order: parseItemOrder(runtimeItem.order) ?? undefined,
+                              ...getItemSizeValues(runtimeItem)
+                          }),
+                    ...getGridItemPlacement(getLayoutGridPlacement(layoutPlacement), useNamedAreas)
+                };
+            } else if (runtimeItem.enableResponsive && isScopedStylesheet) {
+                // Placement, alignment, size and hidden state come from the scoped style sheet
+                itemStyles = {};
+            } else if (runtimeItem.enableResponsive && enableBreakpoints) {
+                // Responsive items use CSS variables
+                const itemCssVars = buildItemCSSVariables(runtimeItem);
+                itemStyles = {
+                    ...itemCssVars
+                } as CSSProperties;
+            } else {
+                // Non-responsive items get direct CSS properties
+                itemStyles = {
+                    justifySelf: runtimeItem.justifySelf !== "auto" ? runtimeItem.justifySelf : undefined,
+                    alignSelf: runtimeItem.alignSelf !== "auto" ? runtimeItem.alignSelf : undefined,
+                    zIndex: runtimeItem.zIndex || undefined,
+                    order: parseItemOrder(runtimeItem.order) ?? undefined,
+                    ...getItemSizeValues(runtimeItem)
+                };
+                // Non-responsive items get direct CSS properties
+                let placement = getActiveItemPlacement(runtimeItem);
+
+                // Validate area placement
+                if (placement.placementType === "area" && placement.gridArea) {
+                    // Check if area exists in current configuration
+                    const currentAreas = activeConfig.areas ? parseGridAreas(activeConfig.areas) : null;
+                    const currentAreaNames = currentAreas
+                        ? new Set(currentAreas.flat().filter(a => a !== "."))
+                        : new Set<string>();
 
                     if (!currentAreaNames.has(placement.gridArea) && !allDefinedAreas.has(placement.gridArea)) {
                         // Area doesn't exist, fall back to auto
@@ -1062,7 +2368,7 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                             rowStart: undefined,
                             rowEnd: undefined
                         };
-                        console.warn(
+                        warnOnce(
                             `Item ${index + 1}: Grid area "${
                                 runtimeItem.gridArea
                             }" is not defined in current configuration`
@@ -1076,11 +2382,35 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 };
             }
 
+            // Measured masonry replaces the row placement with a span of base rows, passed as a
+            // variable so the stylesheet can apply it over the breakpoint placement resets
+            if (isMasonryFallback) {
+                delete itemStyles.gridRowStart;
+                delete itemStyles.gridRowEnd;
+                itemStyles = {
+                    ...itemStyles,
+                    ["--css-grid-masonry-span" as string]: String(getMasonrySpan(index))
+                } as CSSProperties;
+            }
+
+            // A detached windowed cell is laid over the spacer, in its own row
+            if (index === detachedIndex) {
+                itemStyles = {
+                    ...itemStyles,
+                    ...getDetachedItemStyle(shownItemPositions.get(index)!, windowMetrics)
+                };
+            }
+
             // Build item classes
             const itemClasses = ["css-grid__item"];
 
+            // Scoped style sheet targets the item by its index class
+            if (runtimeItem.enableResponsive && isScopedStylesheet && !layoutPlacement) {
+                itemClasses.push(`${widgetId}-item-${index}`);
+            }
+
             // Add base placement class when responsive
-            if (runtimeItem.enableResponsive && enableBreakpoints) {
+            if (usesItemVariables && !layoutPlacement) {
                 // Base placement class
                 itemClasses.push(`css-grid__item--placement-${runtimeItem.placementType}`);
 
@@ -1089,25 +2419,36 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                     const placementType = (getProperty("PlacementType") as string) || runtimeItem.placementType;
                     itemClasses.push(`css-grid__item--${config.size}-placement-${placementType}`);
                 });
+            }
+
+            // Size constraints only apply to items that set them, so theme classes keep theirs
+            if (usesItemVariables) {
+                if (Object.keys(getItemSizeValues(runtimeItem)).length > 0) {
+                    itemClasses.push("css-grid__item--has-size");
+                }
 
-                // Check for alignment overrides (including disabled breakpoints for styling purposes)
+                // Check for alignment and size overrides (including disabled breakpoints for styling purposes)
                 forEachEnabledItemBreakpoint(
                     runtimeItem,
                     (config, getProperty, _getNormalizedProperty) => {
                         const justifySelf = getProperty("JustifySelf") as string;
                         const alignSelf = getProperty("AlignSelf") as string;
                         const zIndex = getProperty("ZIndex") as number | null;
+                        const order = parseItemOrder(getProperty("Order") as string | undefined);
 
-                        if (justifySelf !== "auto" || alignSelf !== "auto" || zIndex !== null) {
+                        if (justifySelf !== "auto" || alignSelf !== "auto" || zIndex !== null || order !== null) {
                             itemClasses.push(`css-grid__item--has-${config.size}-alignment`);
                         }
+                        if (Object.keys(getItemSizeValues(runtimeItem, config.size)).length > 0) {
+                            itemClasses.push(`css-grid__item--has-${config.size}-size`);
+                        }
                     },
                     { includeDisabled: true }
                 );
             }
 
             // Add hidden classes for breakpoints
-            if (runtimeItem.enableResponsive && enableBreakpoints) {
+            if (runtimeItem.enableResponsive && enableBreakpoints && !isScopedStylesheet) {
                 forEachBreakpoint(runtimeItem, (config, getProperty) => {
                     const isHidden = getProperty("Hidden");
                     if (isHidden) {
@@ -1116,6 +2457,27 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 });
             }
 
+            if (index === detachedIndex) {
+                itemClasses.push("css-grid__item--detached");
+            }
+
+            if (runtimeItem.subgridColumns) {
+                itemClasses.push("css-grid__item--subgrid-columns");
+            }
+            if (runtimeItem.subgridRows) {
+                itemClasses.push("css-grid__item--subgrid-rows");
+            }
+
+            if (canEditLayout) {
+                itemClasses.push("css-grid__item--movable");
+                if (draggedIndex === index) {
+                    itemClasses.push("css-grid__item--dragging");
+                }
+                if (isResizing) {
+                    itemClasses.push("css-grid__item--resizing");
+                }
+            }
+
             if (runtimeItem.className) {
                 itemClasses.push(runtimeItem.className);
             }
@@ -1126,13 +2488,18 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             }
 
             // Render placeholder for non-visible virtualized items
+            // at the last size the item was measured at in this breakpoint
             if (shouldVirtualize && !isVisible) {
+                const placeholderSizes = placeholderSizesRef.current;
+                const cachedSize =
+                    placeholderSizes.breakpoint === activeBreakpointSize ? placeholderSizes.sizes[itemKey] : undefined;
                 return (
                     <div
-                        key={`grid-item-${index}`}
+                        key={itemKey}
                         data-grid-index={index}
+                        data-item-key={itemKey}
                         className={`${itemClasses.join(" ")} css-grid__item--placeholder`}
-                        style={itemStyles}
+                        style={{ ...itemStyles, ...getPlaceholderSizeStyle(cachedSize) }}
                         aria-hidden="true"
                     />
                 );
@@ -1182,10 +2549,42 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 }
             }
 
+            // Row and column position from the placement engine.
+            // Masonry has no logical rows (the fallback's rows are base-row spans), so only columns are reported
+            if (itemAriaAttrs.role === "gridcell") {
+                const placedItem = getPlacedItem(gridPlacement, index);
+                if (placedItem) {
+                    if (!enableMasonry) {
+                        itemAriaAttrs["aria-rowindex"] = placedItem.rowStart;
+                    }
+                    itemAriaAttrs["aria-colindex"] = placedItem.columnStart;
+                    if (placedItem.rowSpan > 1 && !enableMasonry) {
+                        itemAriaAttrs["aria-rowspan"] = placedItem.rowSpan;
+                    }
+                    if (placedItem.columnSpan > 1) {
+                        itemAriaAttrs["aria-colspan"] = placedItem.columnSpan;
+                    }
+                }
+            }
+
             // For virtualized grids, add position information
             if (enableVirtualization && shouldVirtualize && containerRole === "grid") {
-                itemAriaAttrs["aria-setsize"] = items.length;
-                itemAriaAttrs["aria-posinset"] = index + 1;
+                itemAriaAttrs["aria-setsize"] = shownItemIndices.length;
+                itemAriaAttrs["aria-posinset"] = (shownItemPositions.get(index) ?? index) + 1;
+            }
+
+            // Movable items are focusable so they can be moved with the keyboard
+            if (canEditLayout) {
+                itemAriaAttrs.tabIndex = 0;
+                itemAriaAttrs["aria-roledescription"] = "movable item";
+                itemAriaAttrs["aria-keyshortcuts"] = canResizeItems
+                    ? "Alt+ArrowUp Alt+ArrowDown Alt+ArrowLeft Alt+ArrowRight Alt+Shift+ArrowUp Alt+Shift+ArrowDown Alt+Shift+ArrowLeft Alt+Shift+ArrowRight"
+                    : "Alt+ArrowUp Alt+ArrowDown Alt+ArrowLeft Alt+ArrowRight";
+            }
+
+            // Roving tabindex makes the grid a single tab stop
+            if (containerRole === "grid") {
+                itemAriaAttrs.tabIndex = index === activeCellIndex ? 0 : -1;
             }
 
             const hasResponsive = runtimeItem.enableResponsive || false;
@@ -1193,24 +2592,56 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             return createElement(
                 semanticElement,
                 {
-                    key: `grid-item-${index}`,
+                    key: itemKey,
                     "data-grid-index": index,
+                    "data-item-key": itemKey,
                     "data-grid-item": itemName,
                     "data-placement": getPlacementInfo(runtimeItem),
                     "data-responsive": hasResponsive,
+                    draggable: canEditLayout || undefined,
                     className: itemClasses.join(" "),
                     style: itemStyles,
                     ...itemAriaAttrs
                 },
-                runtimeItem.content
+                runtimeItem.content,
+                canResizeItems && (
+                    <span
+                        className="css-grid__resize-handle css-grid__resize-handle--column"
+                        data-resize-axis="column"
+                        aria-hidden="true"
+                    />
+                ),
+                canResizeItems && (
+                    <span
+                        className="css-grid__resize-handle css-grid__resize-handle--row"
+                        data-resize-axis="row"
+                        aria-hidden="true"
+                    />
+                ),
+                canResizeItems && (
+                    <span
+                        className="css-grid__resize-handle css-grid__resize-handle--both"
+                        data-resize-axis="both"
+                        aria-hidden="true"
+                    />
+                )
             );
         });
     }, [
-        items,
+        gridItems,
         visibleItems,
         shouldVirtualize,
         isInitialized,
+        activeBreakpointSize,
         enableBreakpoints,
+        isScopedStylesheet,
+        widgetId,
+        isLayoutEditingEnabled,
+        canEditLayout,
+        canResizeItems,
+        savedLayout,
+        draggedIndex,
+        resizePreview,
         useNamedAreas,
         getAllDefinedAreas,
         getActiveGridConfig,
@@ -1220,7 +2651,19 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         getPlacementInfo,
         getItemAccessibleLabel,
         enableVirtualization,
-        containerRole
+        containerRole,
+        gridPlacement,
+        activeCellIndex,
+        enableMasonry,
+        isMasonryFallback,
+        getMasonrySpan,
+        isWindowed,
+        windowRange,
+        windowMetrics,
+        shownItemIndices,
+        shownItemPositions,
+        itemOrderMode,
+        orderBreakpoints
     ]);
 
     /**
@@ -1230,10 +2673,43 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
     const containerClassName = useMemo(() => {
         const classes = ["css-grid", `css-grid--${activeBreakpointSize}`, className];
 
-        // Add responsive modifier if enabled
-        if (enableBreakpoints) {
+        if (canEditLayout) {
+            classes.push("css-grid--editable");
+        }
+
+        if (shouldVirtualize && !isWindowed && placeholderAppearance !== "hidden") {
+            classes.push(`css-grid--placeholder-${placeholderAppearance}`);
+        }
+
+        if (enableMasonry) {
+            classes.push(isMasonryFallback ? "css-grid--masonry css-grid--masonry-fallback" : "css-grid--masonry");
+        }
+
+        // Takes the parent's tracks when nested in a subgrid item (see CSSGrid.css)
+        if (subgridColumns) {
+            classes.push("css-grid--subgrid-columns");
+        }
+        if (subgridRows) {
+            classes.push("css-grid--subgrid-rows");
+        }
+
+        // Scoped style sheet replaces the variable-driven responsive classes
+        if (isScopedStylesheet) {
+            classes.push("css-grid--scoped", widgetId);
+        } else if (enableBreakpoints) {
+            // Add responsive modifier if enabled
             classes.push("css-grid--responsive");
 
+            if (isContainerQueryMode) {
+                classes.push("css-grid--container-query");
+            }
+
+            // Media and container queries cannot use custom widths, so the
+            // breakpoint class set from the measured width drives the layout
+            if (hasCustomBreakpoints) {
+                classes.push("css-grid--custom-breakpoints");
+            }
+
             // Add enabled breakpoint classes using helper
             forEachEnabledBreakpoint(runtimeProps, config => {
                 classes.push(`css-grid--has-${config.size}`);
@@ -1241,20 +2717,52 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         }
 
         return classes.filter(Boolean).join(" ");
-    }, [activeBreakpointSize, className, enableBreakpoints, runtimeProps]);
+    }, [
+        activeBreakpointSize,
+        className,
+        canEditLayout,
+        shouldVirtualize,
+        isWindowed,
+        placeholderAppearance,
+        enableMasonry,
+        isMasonryFallback,
+        subgridColumns,
+        subgridRows,
+        enableBreakpoints,
+        isScopedStylesheet,
+        widgetId,
+        isContainerQueryMode,
+        hasCustomBreakpoints,
+        runtimeProps
+    ]);
 
     /**
      * Helper to ensure a grid item is visible
      */
     const ensureItemVisible = useCallback(
         (itemIndex: number) => {
+            // Windowed grids render the row once it is scrolled into view
+            if (isWindowed) {
+                const position = shownItemPositions.get(itemIndex) ?? itemIndex;
+                const row = Math.floor(position / windowMetrics.columnCount);
+                if (containerRef.current) {
+                    scrollRowIntoView(
+                        containerRef.current,
+                        getScrollParent(containerRef.current, scrollParentSelector),
+                        row,
+                        windowMetrics
+                    );
+                }
+                return;
+            }
+
             setVisibleItems(prev => {
                 const newSet = new Set(prev);
 
                 // Add the target item and surrounding buffer
                 for (
                     let i = Math.max(0, itemIndex - VIRTUALIZATION_BUFFER_SIZE);
-                    i <= Math.min(items.length - 1, itemIndex + VIRTUALIZATION_BUFFER_SIZE);
+                    i <= Math.min(gridItems.length - 1, itemIndex + VIRTUALIZATION_BUFFER_SIZE);
                     i++
                 ) {
                     newSet.add(i);
@@ -1263,16 +2771,93 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 return newSet;
             });
         },
-        [items.length]
+        [gridItems.length, isWindowed, windowMetrics, scrollParentSelector, shownItemPositions]
+    );
+
+    /**
+     * Move the roving tabindex to a cell and focus it
+     */
+    const focusGridCell = useCallback(
+        (index: number) => {
+            // Focused by the effect below once the cell is rendered
+            pendingFocusRef.current = index;
+            setActiveCellKey(getLayoutItemKey(gridItems[index], index));
+            ensureItemVisible(index);
+        },
+        [gridItems, ensureItemVisible]
     );
 
     /**
-     * Handle keyboard navigation for virtualized grids
-     * Ensures items are loaded when navigating with keyboard
+     * Handle ARIA grid keyboard navigation
+     * Only acts while a cell itself has focus, so keys keep working in interactive content
+     *
+     * @returns True when the key moved focus
+     */
+    const handleGridKeyDown = useCallback(
+        (event: React.KeyboardEvent<HTMLDivElement>): boolean => {
+            const target = event.target as HTMLElement;
+            const indexAttr = target.getAttribute?.("data-grid-index");
+            if (containerRole !== "grid" || indexAttr === null || event.altKey) {
+                return false;
+            }
+
+            const currentIndex = parseInt(indexAttr, 10);
+            const directions: Record<string, GridDirection> = {
+                ArrowUp: "up",
+                ArrowDown: "down",
+                ArrowLeft: "left",
+                ArrowRight: "right"
+            };
+
+            let targetIndex: number | null;
+            switch (event.key) {
+                case "ArrowUp":
+                case "ArrowDown":
+                case "ArrowLeft":
+                case "ArrowRight":
+                    targetIndex = findAdjacentItem(gridPlacement, currentIndex, directions[event.key]);
+                    break;
+                case "Home":
+                    targetIndex = event.ctrlKey
+                        ? findGridEdgeItem(gridPlacement, "start")
+                        : findRowEdgeItem(gridPlacement, currentIndex, "start");
+                    break;
+                case "End":
+                    targetIndex = event.ctrlKey
+                        ? findGridEdgeItem(gridPlacement, "end")
+                        : findRowEdgeItem(gridPlacement, currentIndex, "end");
+                    break;
+                case "PageUp":
+                    targetIndex = findItemRowsAway(gridPlacement, currentIndex, -LAYOUT.KEYBOARD_PAGE_ROWS);
+                    break;
+                case "PageDown":
+                    targetIndex = findItemRowsAway(gridPlacement, currentIndex, LAYOUT.KEYBOARD_PAGE_ROWS);
+                    break;
+                default:
+                    return false;
+            }
+
+            // Keys are consumed at the edges too, so the page does not scroll instead
+            event.preventDefault();
+            if (targetIndex !== null && targetIndex !== currentIndex) {
+                focusGridCell(targetIndex);
+            }
+            return true;
+        },
+        [containerRole, gridPlacement, focusGridCell]
+    );
+
+    /**
+     * Handle keyboard navigation
+     * Grids use the ARIA grid keys; virtualized groups load items reached with Tab
      */
     const handleKeyDown = useCallback(
         (event: React.KeyboardEvent<HTMLDivElement>) => {
-            if (!enableVirtualization || !shouldVirtualize) {
+            if (handleLayoutKeyDown(event) || handleGridKeyDown(event)) {
+                return;
+            }
+
+            if (!enableVirtualization || !shouldVirtualize || event.key !== "Tab") {
                 return;
             }
 
@@ -1283,78 +2868,93 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
                 return;
             }
 
-            // Handle Tab key navigation
-            if (event.key === "Tab") {
-                // Find the next focusable element
-                const focusableElements = containerRef.current.querySelectorAll(
-                    'a, button, input, textarea, select, [tabindex]:not([tabindex="-1"])'
-                );
+            // Find the next focusable element
+            const focusableElements = containerRef.current.querySelectorAll(
+                'a, button, input, textarea, select, [tabindex]:not([tabindex="-1"])'
+            );
 
-                const currentIndex = Array.from(focusableElements).indexOf(focusedElement);
-                const nextIndex = event.shiftKey ? currentIndex - 1 : currentIndex + 1;
+            const currentIndex = Array.from(focusableElements).indexOf(focusedElement);
+            const nextIndex = event.shiftKey ? currentIndex - 1 : currentIndex + 1;
 
-                if (nextIndex >= 0 && nextIndex < focusableElements.length) {
-                    const nextElement = focusableElements[nextIndex] as HTMLElement;
-                    const gridItem = nextElement.closest("[data-grid-index]");
+            if (nextIndex >= 0 && nextIndex < focusableElements.length) {
+                const nextElement = focusableElements[nextIndex] as HTMLElement;
+                const gridItem = nextElement.closest("[data-grid-index]");
 
-                    if (gridItem) {
-                        const itemIndex = parseInt(gridItem.getAttribute("data-grid-index") || "0");
-                        ensureItemVisible(itemIndex);
-                    }
+                if (gridItem) {
+                    const itemIndex = parseInt(gridItem.getAttribute("data-grid-index") || "0");
+                    ensureItemVisible(itemIndex);
                 }
             }
+        },
+        [handleLayoutKeyDown, handleGridKeyDown, enableVirtualization, shouldVirtualize, ensureItemVisible]
+    );
 
-            // Handle arrow key navigation for ARIA grid role
-            // Focus moves to interactive content within grid items, not the items themselves
-            if (containerRole === "grid" && ["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(event.key)) {
-                const currentGridItem = focusedElement.closest("[data-grid-index]");
-                if (currentGridItem) {
-                    const currentIndex = parseInt(currentGridItem.getAttribute("data-grid-index") || "0");
-                    let targetIndex = currentIndex;
-
-                    // Calculate target based on grid layout
-                    const { columnCount } = gridDimensions;
-                    switch (event.key) {
-                        case "ArrowUp":
-                            targetIndex = Math.max(0, currentIndex - columnCount);
-                            break;
-                        case "ArrowDown":
-                            targetIndex = Math.min(items.length - 1, currentIndex + columnCount);
-                            break;
-                        case "ArrowLeft":
-                            targetIndex = Math.max(0, currentIndex - 1);
-                            break;
-                        case "ArrowRight":
-                            targetIndex = Math.min(items.length - 1, currentIndex + 1);
-                            break;
-                    }
-
-                    if (targetIndex !== currentIndex) {
-                        ensureItemVisible(targetIndex);
-
-                        // Focus the first interactive element within the target grid item
-                        setTimeout(() => {
-                            const targetItem = containerRef.current?.querySelector(
-                                `[data-grid-index="${targetIndex}"]`
-                            );
-                            if (targetItem) {
-                                const firstFocusable = targetItem.querySelector(
-                                    'a, button, input, textarea, select, [tabindex]:not([tabindex="-1"])'
-                                ) as HTMLElement;
-                                if (firstFocusable) {
-                                    firstFocusable.focus();
-                                }
-                            }
-                        }, LAYOUT.KEYBOARD_FOCUS_DELAY);
-
-                        event.preventDefault();
-                    }
+    /**
+     * Track focus within the grid
+     * Focusing a cell or its content makes that cell the active cell
+     */
+    const handleFocus = useCallback(
+        (event: React.FocusEvent<HTMLDivElement>) => {
+            focusWithinRef.current = true;
+
+            const gridItem = (event.target as HTMLElement).closest("[data-grid-index]");
+            if (containerRole === "grid" && gridItem) {
+                const index = parseInt(gridItem.getAttribute("data-grid-index") || "0", 10);
+                if (gridItems[index]) {
+                    setActiveCellKey(getLayoutItemKey(gridItems[index], index));
                 }
             }
         },
-        [enableVirtualization, shouldVirtualize, items.length, containerRole, ensureItemVisible, gridDimensions]
+        [containerRole, gridItems]
     );
 
+    /**
+     * Track focus leaving the grid
+     * Focus lost because the focused element was removed or hidden still counts as
+     * inside the grid, so it can be restored once the grid has re-rendered
+     */
+    const handleBlur = useCallback((event: React.FocusEvent<HTMLDivElement>) => {
+        const target = event.target as HTMLElement;
+
+        window.requestAnimationFrame(() => {
+            const activeElement = document.activeElement;
+            const targetGone = !target.isConnected || target.getClientRects().length === 0;
+            focusWithinRef.current =
+                !!containerRef.current?.contains(activeElement) ||
+                ((!activeElement || activeElement === document.body) && targetGone);
+        });
+    }, []);
+
+    // Focus a cell reached with the keyboard once it is rendered, and restore focus
+    // to the active cell when a breakpoint change or re-render dropped it
+    useEffect(() => {
+        if (!containerRef.current) {
+            return;
+        }
+
+        if (pendingFocusRef.current !== null) {
+            const pendingCell = containerRef.current.querySelector<HTMLElement>(
+                `[data-grid-index="${pendingFocusRef.current}"]`
+            );
+            if (pendingCell) {
+                pendingFocusRef.current = null;
+                pendingCell.focus();
+            }
+            return;
+        }
+
+        if (!focusWithinRef.current || activeCellIndex === null) {
+            return;
+        }
+
+        const activeElement = document.activeElement;
+        if (activeElement && activeElement !== document.body && activeElement.getClientRects().length > 0) {
+            return;
+        }
+
+        containerRef.current.querySelector<HTMLElement>(`[data-grid-index="${activeCellIndex}"]`)?.focus();
+    }, [activeCellIndex, activeBreakpointSize, gridPlacement, visibleItems, windowRange]);
+
     /**
      * Container data attributes and ARIA attributes
      * Provides metadata about the grid state for screen readers
@@ -1362,17 +2962,19 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
     const containerDataAttributes = useMemo(() => {
         const attrs: Record<string, string | number | undefined> = {
             "data-breakpoint": activeBreakpointSize,
-            "data-item-count": items.length
+            "data-item-count": shownItemIndices.length
         };
 
-        // Add ARIA grid dimensions for screen readers
+        // Add ARIA grid dimensions for screen readers (masonry has no logical rows to count)
         if (containerRole === "grid") {
-            attrs["aria-rowcount"] = gridDimensions.rowCount;
+            if (!enableMasonry) {
+                attrs["aria-rowcount"] = gridDimensions.rowCount;
+            }
             attrs["aria-colcount"] = gridDimensions.columnCount;
         }
 
-        if (enableVirtualization && items.length >= (virtualizeThreshold || DEFAULT_VIRTUALIZATION_THRESHOLD)) {
-            attrs["data-virtualized"] = "true";
+        if (enableVirtualization && gridItems.length >= (virtualizeThreshold || DEFAULT_VIRTUALIZATION_THRESHOLD)) {
+            attrs["data-virtualized"] = isWindowed ? "windowed" : "true";
         }
 
         if (enableBreakpoints) {
@@ -1382,12 +2984,15 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         return attrs;
     }, [
         activeBreakpointSize,
-        items.length,
+        shownItemIndices.length,
+        gridItems.length,
         enableVirtualization,
         virtualizeThreshold,
+        isWindowed,
         enableBreakpoints,
         containerRole,
-        gridDimensions
+        gridDimensions,
+        enableMasonry
     ]);
 
     /**
@@ -1418,11 +3023,11 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
         // Fallback for regular grids
         if (containerRole === "grid") {
             const { columnCount, rowCount } = gridDimensions;
-            return `Grid with ${items.length} items in ${rowCount} rows and ${columnCount} columns`;
+            return `Grid with ${shownItemIndices.length} items in ${rowCount} rows and ${columnCount} columns`;
         }
 
         return undefined;
-    }, [ariaLabel, useNamedAreas, containerRole, getActiveGridConfig, gridDimensions, items.length]);
+    }, [ariaLabel, useNamedAreas, containerRole, getActiveGridConfig, gridDimensions, shownItemIndices.length]);
 
     return (
         <div
@@ -1434,9 +3039,31 @@ export function CSSGrid(props: CSSGridContainerProps): ReactElement {
             aria-labelledby={ariaLabelledBy}
             aria-describedby={ariaDescribedBy}
             onKeyDown={handleKeyDown}
+            onFocus={handleFocus}
+            onBlur={handleBlur}
+            onDragStart={canEditLayout ? handleDragStart : undefined}
+            onDragOver={canEditLayout ? handleDragOver : undefined}
+            onDrop={canEditLayout ? handleDrop : undefined}
+            onDragEnd={canEditLayout ? handleDragEnd : undefined}
+            onPointerDown={canResizeItems ? handleResizePointerDown : undefined}
+            onPointerMove={canResizeItems ? handleResizePointerMove : undefined}
+            onPointerUp={canResizeItems ? handleResizePointerUp : undefined}
+            onPointerCancel={canResizeItems ? handleResizePointerUp : undefined}
             {...containerDataAttributes}
         >
+            {scopedStylesheet && <style>{scopedStylesheet}</style>}
+            {isWindowed && windowRange.firstRow > 0 && (
+                <div className="css-grid__spacer css-grid__spacer--top" aria-hidden="true" />
+            )}
             {renderGridItems()}
+            {isWindowed && windowRange.lastRow < windowRowCount - 1 && (
+                <div className="css-grid__spacer css-grid__spacer--bottom" aria-hidden="true" />
+            )}
+            {canEditLayout && (
+                <div className="css-grid__live-region" aria-live="polite">
+                    {layoutAnnouncement}
+                </div>
+            )}
         </div>
     );
 }
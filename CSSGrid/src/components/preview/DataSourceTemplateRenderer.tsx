@@ -0,0 +1,68 @@
+import { createElement, CSSProperties } from "react";
+import { CSSGridPreviewProps } from "../../../typings/CSSGridProps";
+import { EMPTY_ITEM_MIN_HEIGHT, CSS_VALUES } from "../../utils/constants";
+
+interface DataSourceTemplateRendererProps {
+    dataContent: CSSGridPreviewProps["dataContent"];
+    dataJustifySelf: string;
+    dataAlignSelf: string;
+    dataSubgridColumns: boolean;
+    dataSubgridRows: boolean;
+    hasDataSource: boolean;
+}
+
+/**
+ * Data Source Template Renderer Component
+ * Renders the per-object item template as a single drop zone in datasource mode
+ */
+export const DataSourceTemplateRenderer: React.FC<DataSourceTemplateRendererProps> = ({
+    dataContent,
+    dataJustifySelf,
+    dataAlignSelf,
+    dataSubgridColumns,
+    dataSubgridRows,
+    hasDataSource
+}) => {
+    const ContentRenderer = dataContent?.renderer;
+
+    const itemStyles: CSSProperties = {
+        position: "relative",
+        minHeight: `${EMPTY_ITEM_MIN_HEIGHT}px`,
+        boxSizing: "border-box",
+        justifySelf: dataJustifySelf !== "auto" ? dataJustifySelf : undefined,
+        alignSelf: dataAlignSelf !== "auto" ? dataAlignSelf : undefined
+    };
+
+    if (!ContentRenderer) {
+        itemStyles.width = CSS_VALUES.FULL_WIDTH;
+        itemStyles.height = CSS_VALUES.FULL_HEIGHT;
+    }
+
+    const caption = hasDataSource ? "Item template" : "Item template (no data source)";
+
+    return (
+        <div
+            className={[
+                "css-grid-preview-item css-grid__item css-grid-preview-item--template",
+                dataSubgridColumns && "css-grid__item--subgrid-columns",
+                dataSubgridRows && "css-grid__item--subgrid-rows"
+            ]
+                .filter(Boolean)
+                .join(" ")}
+            style={itemStyles}
+            data-placement-type="auto"
+        >
+            {ContentRenderer ? (
+                <div className="css-grid-preview-content">
+                    <ContentRenderer caption={caption}>
+                        <div />
+                    </ContentRenderer>
+                </div>
+            ) : (
+                <div className="css-grid-preview-empty">
+                    <span className="css-grid-preview-empty-text">{caption}</span>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -6,13 +6,39 @@ interface DebugOverlayProps {
     gridMetrics: GridMetrics | null;
     showGridLines: boolean;
     showGridGaps: boolean;
+    columnLineNames?: string[][];
+    rowLineNames?: string[][];
+}
+
+/**
+ * Label of a grid line: its number, followed by its names from the template
+ */
+function getLineLabel(lineNumber: number, names: string[] | undefined): string {
+    return names && names.length > 0 ? `${lineNumber} ${names.join(" ")}` : String(lineNumber);
+}
+
+/**
+ * Width of a line label box, growing with named lines
+ */
+function getLineLabelWidth(label: string): number {
+    return Math.max(
+        DEBUG_OVERLAY.LINE_LABEL_PADDING.x,
+        label.length * DEBUG_OVERLAY.LINE_LABEL_CHAR_WIDTH + DEBUG_OVERLAY.LINE_LABEL_PADDING.x / 2
+    );
 }
 
 /**
  * Debug Overlay Component
  * Renders grid lines, gap visualizations, and measurements
+ * Lines named in the active template are labelled with their names
  */
-export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGridLines, showGridGaps }) => {
+export const DebugOverlay: React.FC<DebugOverlayProps> = ({
+    gridMetrics,
+    showGridLines,
+    showGridGaps,
+    columnLineNames,
+    rowLineNames
+}) => {
     if (!gridMetrics || (!showGridLines && !showGridGaps)) {
         return null;
     }
@@ -148,6 +174,9 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                         const isFirst = i === 0;
                         const isLast = i === tracks.columns.length - 1;
                         const hasGapBefore = i > 0 && gaps.column > 0;
+                        const label = getLineLabel(lineNumber, columnLineNames?.[i]);
+                        const labelWidth = getLineLabelWidth(label);
+                        const labelX = isFirst ? x + 4 : isLast ? x - labelWidth - 4 : x - labelWidth / 2;
 
                         return (
                             <g key={`v-${i}`}>
@@ -193,15 +222,9 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                 {/* Column line numbers positioned inside grid */}
                                 {/* Top labels */}
                                 <rect
-                                    x={
-                                        isFirst
-                                            ? x + 4
-                                            : isLast
-                                            ? x - DEBUG_OVERLAY.LINE_LABEL_PADDING.x - 4
-                                            : x - DEBUG_OVERLAY.LINE_LABEL_PADDING.x / 2
-                                    }
+                                    x={labelX}
                                     y={4}
-                                    width={DEBUG_OVERLAY.LINE_LABEL_PADDING.x}
+                                    width={labelWidth}
                                     height={DEBUG_OVERLAY.LINE_LABEL_PADDING.y}
                                     fill="white"
                                     stroke={COLORS.GRID_LINE}
@@ -210,7 +233,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     rx="2"
                                 />
                                 <text
-                                    x={isFirst ? x + 14 : isLast ? x - 14 : x}
+                                    x={labelX + labelWidth / 2}
                                     y={12}
                                     textAnchor="middle"
                                     dominantBaseline="middle"
@@ -218,19 +241,13 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     fill={COLORS.GRID_LINE}
                                     fontWeight="bold"
                                 >
-                                    {lineNumber}
+                                    {label}
                                 </text>
                                 {/* Bottom labels */}
                                 <rect
-                                    x={
-                                        isFirst
-                                            ? x + 4
-                                            : isLast
-                                            ? x - DEBUG_OVERLAY.LINE_LABEL_PADDING.x - 4
-                                            : x - DEBUG_OVERLAY.LINE_LABEL_PADDING.x / 2
-                                    }
+                                    x={labelX}
                                     y={height - DEBUG_OVERLAY.LINE_LABEL_PADDING.y - 4}
-                                    width={DEBUG_OVERLAY.LINE_LABEL_PADDING.x}
+                                    width={labelWidth}
                                     height={DEBUG_OVERLAY.LINE_LABEL_PADDING.y}
                                     fill="white"
                                     stroke={COLORS.GRID_LINE}
@@ -239,7 +256,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     rx="2"
                                 />
                                 <text
-                                    x={isFirst ? x + 14 : isLast ? x - 14 : x}
+                                    x={labelX + labelWidth / 2}
                                     y={height - 12}
                                     textAnchor="middle"
                                     dominantBaseline="middle"
@@ -247,7 +264,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     fill={COLORS.GRID_LINE}
                                     fontWeight="bold"
                                 >
-                                    {lineNumber}
+                                    {label}
                                 </text>
                             </g>
                         );
@@ -259,6 +276,8 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                         const isFirst = i === 0;
                         const isLast = i === tracks.rows.length - 1;
                         const hasGapBefore = i > 0 && gaps.row > 0;
+                        const label = getLineLabel(lineNumber, rowLineNames?.[i]);
+                        const labelWidth = getLineLabelWidth(label);
 
                         return (
                             <g key={`h-${i}`}>
@@ -312,7 +331,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                             ? y - DEBUG_OVERLAY.LINE_LABEL_PADDING.y - 4
                                             : y - DEBUG_OVERLAY.LINE_LABEL_PADDING.y / 2
                                     }
-                                    width={DEBUG_OVERLAY.LINE_LABEL_PADDING.x}
+                                    width={labelWidth}
                                     height={DEBUG_OVERLAY.LINE_LABEL_PADDING.y}
                                     fill="white"
                                     stroke={COLORS.GRID_LINE}
@@ -321,7 +340,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     rx="2"
                                 />
                                 <text
-                                    x={14}
+                                    x={4 + labelWidth / 2}
                                     y={isFirst ? y + 12 : isLast ? y - 12 : y}
                                     textAnchor="middle"
                                     dominantBaseline="middle"
@@ -329,11 +348,11 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     fill={COLORS.GRID_LINE}
                                     fontWeight="bold"
                                 >
-                                    {lineNumber}
+                                    {label}
                                 </text>
                                 {/* Right labels */}
                                 <rect
-                                    x={width - DEBUG_OVERLAY.LINE_LABEL_PADDING.x - 4}
+                                    x={width - labelWidth - 4}
                                     y={
                                         isFirst
                                             ? y + 4
@@ -341,7 +360,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                             ? y - DEBUG_OVERLAY.LINE_LABEL_PADDING.y - 4
                                             : y - DEBUG_OVERLAY.LINE_LABEL_PADDING.y / 2
                                     }
-                                    width={DEBUG_OVERLAY.LINE_LABEL_PADDING.x}
+                                    width={labelWidth}
                                     height={DEBUG_OVERLAY.LINE_LABEL_PADDING.y}
                                     fill="white"
                                     stroke={COLORS.GRID_LINE}
@@ -350,7 +369,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     rx="2"
                                 />
                                 <text
-                                    x={width - 14}
+                                    x={width - labelWidth / 2 - 4}
                                     y={isFirst ? y + 12 : isLast ? y - 12 : y}
                                     textAnchor="middle"
                                     dominantBaseline="middle"
@@ -358,7 +377,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({ gridMetrics, showGri
                                     fill={COLORS.GRID_LINE}
                                     fontWeight="bold"
                                 >
-                                    {lineNumber}
+                                    {label}
                                 </text>
                             </g>
                         );
@@ -0,0 +1,186 @@
+import { createElement, useEffect, useMemo, useRef, useState } from "react";
+import { GridAreaOverlay } from "./GridAreaOverlay";
+import { generateAreaColors } from "./areaColorGenerator";
+import { getUniqueAreaNames, isValidAreaName } from "../../utils/gridHelpers";
+import { validateGridTemplateAreas } from "../../utils/validationHelpers";
+import {
+    EMPTY_AREA_CELL,
+    addAreaColumn,
+    addAreaRow,
+    createAreaMatrix,
+    paintAreaCell,
+    removeAreaColumn,
+    removeAreaRow,
+    serializeAreaMatrix
+} from "../../utils/areaEditorHelpers";
+
+/**
+ * Layout whose areas can be edited: the base layout or a breakpoint
+ */
+export interface AreaEditorTarget {
+    key: string;
+    label: string;
+    property: string;
+    areas: string;
+    columnCount: number;
+    rowCount: number;
+}
+
+interface GridAreaEditorProps {
+    targets: AreaEditorTarget[];
+}
+
+/**
+ * Grid Area Editor Component
+ * Paints named areas onto a cell matrix and generates the grid-template-areas text.
+ * Previews cannot change property values, so the text is copied into the target's
+ * property; the editor reloads when that property changes.
+ */
+export const GridAreaEditor: React.FC<GridAreaEditorProps> = ({ targets }) => {
+    const [targetKey, setTargetKey] = useState<string>(targets[0].key);
+    const target = targets.find(candidate => candidate.key === targetKey) || targets[0];
+
+    const [matrix, setMatrix] = useState<string[][]>(() =>
+        createAreaMatrix(target.areas, target.columnCount, target.rowCount)
+    );
+    const [areaName, setAreaName] = useState<string>("");
+    const [isPainting, setIsPainting] = useState<boolean>(false);
+    const [isCopied, setIsCopied] = useState<boolean>(false);
+    const outputRef = useRef<HTMLTextAreaElement>(null);
+
+    // Reload when switching targets or when the stored value changes (e.g. after pasting)
+    useEffect(() => {
+        setMatrix(createAreaMatrix(target.areas, target.columnCount, target.rowCount));
+    }, [target.key, target.areas, target.columnCount, target.rowCount]);
+
+    const areaNames = useMemo(() => getUniqueAreaNames(matrix), [matrix]);
+    const areaColorMap = useMemo(() => generateAreaColors(areaNames), [areaNames]);
+    const output = useMemo(() => serializeAreaMatrix(matrix), [matrix]);
+    const validation = useMemo(() => validateGridTemplateAreas(output), [output]);
+
+    useEffect(() => {
+        setIsCopied(false);
+    }, [output]);
+
+    const trimmedName = areaName.trim();
+    const isNameValid = trimmedName === "" || trimmedName === EMPTY_AREA_CELL || isValidAreaName(trimmedName);
+    const paintName = trimmedName || EMPTY_AREA_CELL;
+
+    const paint = (row: number, column: number): void => {
+        if (isNameValid) {
+            setMatrix(current => paintAreaCell(current, row, column, paintName));
+        }
+    };
+
+    const copyOutput = (): void => {
+        const selectOutput = (): void => outputRef.current?.select();
+        if (navigator.clipboard) {
+            navigator.clipboard.writeText(output).then(() => setIsCopied(true), selectOutput);
+        } else {
+            selectOutput();
+        }
+    };
+
+    const columnCount = matrix[0].length;
+
+    return (
+        <div
+            className="css-grid-area-editor"
+            onMouseUp={() => setIsPainting(false)}
+            onMouseLeave={() => setIsPainting(false)}
+        >
+            <div className="css-grid-area-editor__toolbar">
+                {targets.length > 1 && (
+                    <select
+                        className="css-grid-area-editor__target"
+                        value={target.key}
+                        onChange={event => setTargetKey(event.target.value)}
+                    >
+                        {targets.map(candidate => (
+                            <option key={candidate.key} value={candidate.key}>
+                                {candidate.label}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <input
+                    className="css-grid-area-editor__name"
+                    type="text"
+                    placeholder="Area name (empty to erase)"
+                    value={areaName}
+                    aria-invalid={!isNameValid}
+                    onChange={event => setAreaName(event.target.value)}
+                />
+                {areaNames.map(name => (
+                    <button
+                        key={name}
+                        type="button"
+                        className="css-grid-area-editor__swatch"
+                        style={{ backgroundColor: areaColorMap[name] }}
+                        aria-pressed={name === trimmedName}
+                        onClick={() => setAreaName(name)}
+                    >
+                        {name}
+                    </button>
+                ))}
+                <button type="button" onClick={() => setMatrix(addAreaRow)}>
+                    + Row
+                </button>
+                <button type="button" onClick={() => setMatrix(removeAreaRow)} disabled={matrix.length < 2}>
+                    - Row
+                </button>
+                <button type="button" onClick={() => setMatrix(addAreaColumn)}>
+                    + Column
+                </button>
+                <button type="button" onClick={() => setMatrix(removeAreaColumn)} disabled={columnCount < 2}>
+                    - Column
+                </button>
+            </div>
+
+            <div
+                className="css-grid-area-editor__matrix"
+                style={{
+                    gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+                    gridTemplateRows: `repeat(${matrix.length}, 32px)`
+                }}
+            >
+                <GridAreaOverlay showGridAreas useNamedAreas parsedAreas={matrix} areaColorMap={areaColorMap} />
+                {matrix.map((row, rowIndex) =>
+                    row.map((cell, columnIndex) => (
+                        <div
+                            key={`cell-${rowIndex}-${columnIndex}`}
+                            className="css-grid-area-editor__cell"
+                            style={{ gridRow: rowIndex + 1, gridColumn: columnIndex + 1 }}
+                            title={cell === EMPTY_AREA_CELL ? "Empty cell" : cell}
+                            onMouseDown={event => {
+                                event.preventDefault();
+                                setIsPainting(true);
+                                paint(rowIndex, columnIndex);
+                            }}
+                            onMouseEnter={() => {
+                                if (isPainting) {
+                                    paint(rowIndex, columnIndex);
+                                }
+                            }}
+                        />
+                    ))
+                )}
+            </div>
+
+            {!isNameValid && (
+                <div className="css-grid-area-editor__error">
+                    Area names must start with a letter and contain only letters, numbers, hyphens and underscores
+                </div>
+            )}
+            {!validation.valid && <div className="css-grid-area-editor__error">{validation.error}</div>}
+
+            <div className="css-grid-area-editor__output">
+                <textarea ref={outputRef} readOnly rows={matrix.length} value={output} />
+                <button type="button" onClick={copyOutput}>
+                    {isCopied ? "Copied" : "Copy"}
+                </button>
+            </div>
+            <div className="css-grid-area-editor__hint">Paste into &quot;{target.property}&quot;</div>
+        </div>
+    );
+};
@@ -1,7 +1,7 @@
 import { createElement, CSSProperties } from "react";
 import { Selectable } from "mendix/preview/Selectable";
 import { RuntimeGridItemPreview, GridItemPlacement } from "../../types/ConditionalTypes";
-import { getGridItemPlacement } from "../../utils/gridHelpers";
+import { getGridItemPlacement, parseItemOrder } from "../../utils/gridHelpers";
 import { JustifySelfEnum, AlignSelfEnum } from "../../../typings/CSSGridProps";
 import { EMPTY_ITEM_MIN_HEIGHT, CSS_VALUES, SVG } from "../../utils/constants";
 
@@ -15,7 +15,9 @@ interface GridItemRendererProps {
         justifySelf: JustifySelfEnum;
         alignSelf: AlignSelfEnum;
         zIndex: string;
+        order: string;
     };
+    activeSize: Record<string, string>;
     effectivePlacementType: string;
     itemName: string;
     hasResponsive: boolean;
@@ -35,6 +37,7 @@ export const GridItemRenderer: React.FC<GridItemRendererProps> = ({
     isHidden,
     activePlacement,
     activeAlignment,
+    activeSize,
     effectivePlacementType,
     itemName,
     hasResponsive,
@@ -63,6 +66,8 @@ export const GridItemRenderer: React.FC<GridItemRendererProps> = ({
         justifySelf: activeAlignment.justifySelf !== "auto" ? activeAlignment.justifySelf : undefined,
         alignSelf: activeAlignment.alignSelf !== "auto" ? activeAlignment.alignSelf : undefined,
         zIndex: activeAlignment.zIndex || undefined,
+        order: parseItemOrder(activeAlignment.order) ?? undefined,
+        ...activeSize,
         // Add hidden styling for preview
         ...(isHidden && {
             opacity: CSS_VALUES.HIDDEN_ITEM_OPACITY,
@@ -72,10 +77,12 @@ export const GridItemRenderer: React.FC<GridItemRendererProps> = ({
         })
     };
 
-    // Only force dimensions for empty items
+    // Only force dimensions for empty items, leaving the height to an aspect ratio
     if (!hasContent) {
         itemStyles.width = CSS_VALUES.FULL_WIDTH;
-        itemStyles.height = CSS_VALUES.FULL_HEIGHT;
+        if (!activeSize.aspectRatio) {
+            itemStyles.height = CSS_VALUES.FULL_HEIGHT;
+        }
     }
 
     // Build caption intelligently to avoid repetition
@@ -106,7 +113,15 @@ export const GridItemRenderer: React.FC<GridItemRendererProps> = ({
     // Add hidden indicator
     itemCaption += isHidden ? " 🚫" : "";
 
-    const itemClasses = ["css-grid-preview-item", "css-grid__item", item.className].filter(Boolean).join(" ");
+    const itemClasses = [
+        "css-grid-preview-item",
+        "css-grid__item",
+        item.subgridColumns && "css-grid__item--subgrid-columns",
+        item.subgridRows && "css-grid__item--subgrid-rows",
+        item.className
+    ]
+        .filter(Boolean)
+        .join(" ");
 
     // Determine content wrapper dimensions based on alignment
     const contentWrapperStyles: CSSProperties = {};
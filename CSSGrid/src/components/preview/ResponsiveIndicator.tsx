@@ -1,6 +1,12 @@
 import { createElement, ReactNode } from "react";
 import { RuntimeGridContainerPreview, RuntimeGridItemPreview } from "../../types/ConditionalTypes";
-import { forEachEnabledBreakpoint, getBreakpointsToProcess, ResponsiveMode } from "../../utils/breakpointHelpers";
+import {
+    forEachEnabledBreakpoint,
+    getBreakpointsToProcess,
+    getResponsiveMode,
+    ResponsiveMode
+} from "../../utils/breakpointHelpers";
+import { BreakpointConfig } from "../../types/BreakpointTypes";
 import { SPACING, BORDER_RADIUS, TYPOGRAPHY, CSS_VALUES } from "../../utils/constants";
 
 interface ResponsiveIndicatorProps {
@@ -13,6 +19,8 @@ interface ResponsiveIndicatorProps {
     items: RuntimeGridItemPreview[];
     isItemHiddenAtCurrentBreakpoint: (item: RuntimeGridItemPreview) => boolean;
     responsiveMode: string;
+    breakpointConfigs: BreakpointConfig[];
+    presetCaption?: string;
 }
 
 /**
@@ -28,12 +36,29 @@ export const ResponsiveIndicator: React.FC<ResponsiveIndicatorProps> = ({
     runtimeProps,
     items,
     isItemHiddenAtCurrentBreakpoint,
-    responsiveMode
+    responsiveMode,
+    breakpointConfigs,
+    presetCaption
 }) => {
-    if (!hasResponsiveContainer || !showGridInfo) {
+    if (!showGridInfo) {
         return null;
     }
 
+    const presetText = presetCaption ? `Preset: ${presetCaption}` : "";
+
+    if (!hasResponsiveContainer) {
+        if (!presetText) {
+            return null;
+        }
+
+        return (
+            <div className="css-grid-preview-info">
+                <span className="css-grid-preview-info-icon">📱</span>
+                <span className="css-grid-preview-info-text">{presetText}</span>
+            </div>
+        );
+    }
+
     // Build the active breakpoints display with visual highlighting
     const breakpointElements: ReactNode[] = [];
 
@@ -41,8 +66,8 @@ export const ResponsiveIndicator: React.FC<ResponsiveIndicatorProps> = ({
     let actuallyActiveBreakpoint: string | null = null;
 
     if (enableBreakpoints) {
-        const mode: ResponsiveMode = responsiveMode === "cascade" ? "cascade" : "exact";
-        const activeBreakpoints = getBreakpointsToProcess(mode, containerWidth, runtimeProps);
+        const mode: ResponsiveMode = getResponsiveMode(responsiveMode);
+        const activeBreakpoints = getBreakpointsToProcess(mode, containerWidth, runtimeProps, breakpointConfigs);
 
         if (activeBreakpoints.length > 0) {
             // In cascade mode, the last (highest) breakpoint in the list is the one being applied
@@ -115,6 +140,7 @@ export const ResponsiveIndicator: React.FC<ResponsiveIndicatorProps> = ({
             <span className="css-grid-preview-info-icon">📱</span>
             <span className="css-grid-preview-info-text">
                 Active: {breakpointElements} | {containerWidth}×{containerHeight}px{hiddenText}
+                {presetText && ` | ${presetText}`}
             </span>
         </div>
     );
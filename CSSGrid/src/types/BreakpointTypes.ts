@@ -27,14 +27,51 @@ export const BREAKPOINT_CONFIGS: BreakpointConfig[] = [
     { size: "xxxxl", minWidth: 3840, label: "4K" }
 ];
 
+/**
+ * Minimum width overrides per breakpoint
+ * XS always starts at 0 and cannot be overridden
+ */
+export type BreakpointThresholds = Partial<Record<Exclude<BreakpointSize, "xs">, number>>;
+
+/**
+ * Create breakpoint configurations with user-defined minimum widths
+ * Max widths are derived from the next breakpoint so ranges never overlap
+ *
+ * @param thresholds - Minimum width overrides; missing sizes keep their defaults
+ * @returns Breakpoint configurations, or the defaults when no overrides are given
+ */
+export function createBreakpointConfigs(thresholds: BreakpointThresholds): BreakpointConfig[] {
+    if (Object.keys(thresholds).length === 0) {
+        return BREAKPOINT_CONFIGS;
+    }
+
+    const configs = BREAKPOINT_CONFIGS.map(config => {
+        const override = config.size === "xs" ? undefined : thresholds[config.size];
+        return {
+            size: config.size,
+            minWidth: override !== undefined ? override : config.minWidth,
+            label: config.label
+        } as BreakpointConfig;
+    });
+
+    configs.forEach((config, index) => {
+        const next = configs[index + 1];
+        if (next) {
+            config.maxWidth = next.minWidth - 1;
+        }
+    });
+
+    return configs;
+}
+
 /**
  * Get the active breakpoint based on current width
  */
-export function getActiveBreakpoint(width: number): BreakpointSize {
+export function getActiveBreakpoint(width: number, configs: BreakpointConfig[] = BREAKPOINT_CONFIGS): BreakpointSize {
     // Start from largest and work down
-    for (let i = BREAKPOINT_CONFIGS.length - 1; i >= 0; i--) {
-        if (width >= BREAKPOINT_CONFIGS[i].minWidth) {
-            return BREAKPOINT_CONFIGS[i].size;
+    for (let i = configs.length - 1; i >= 0; i--) {
+        if (width >= configs[i].minWidth) {
+            return configs[i].size;
         }
     }
     return "xs"; // Fallback
@@ -44,12 +81,16 @@ export function getActiveBreakpoint(width: number): BreakpointSize {
  * Get the active breakpoint with hysteresis to prevent rapid switching
  * Uses a buffer zone around breakpoint thresholds to provide stability
  */
-export function getActiveBreakpointWithHysteresis(newWidth: number, currentBreakpoint: BreakpointSize): BreakpointSize {
+export function getActiveBreakpointWithHysteresis(
+    newWidth: number,
+    currentBreakpoint: BreakpointSize,
+    configs: BreakpointConfig[] = BREAKPOINT_CONFIGS
+): BreakpointSize {
     const HYSTERESIS = LAYOUT.HYSTERESIS_BUFFER; // Buffer to prevent rapid switching
 
     // Find the breakpoint that matches the new width
-    for (let i = BREAKPOINT_CONFIGS.length - 1; i >= 0; i--) {
-        const config = BREAKPOINT_CONFIGS[i];
+    for (let i = configs.length - 1; i >= 0; i--) {
+        const config = configs[i];
         const isCurrentBreakpoint = currentBreakpoint === config.size;
 
         // Apply hysteresis: use lower threshold when leaving, higher when entering
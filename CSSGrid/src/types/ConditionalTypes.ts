@@ -84,7 +84,79 @@ type ConditionalItemResponsiveProps =
     | "xxxxlColumnStart"
     | "xxxxlColumnEnd"
     | "xxxxlRowStart"
-    | "xxxxlRowEnd";
+    | "xxxxlRowEnd"
+    | "xsJustifySelf"
+    | "xsAlignSelf"
+    | "xsZIndex"
+    | "smJustifySelf"
+    | "smAlignSelf"
+    | "smZIndex"
+    | "mdJustifySelf"
+    | "mdAlignSelf"
+    | "mdZIndex"
+    | "lgJustifySelf"
+    | "lgAlignSelf"
+    | "lgZIndex"
+    | "xlJustifySelf"
+    | "xlAlignSelf"
+    | "xlZIndex"
+    | "xxlJustifySelf"
+    | "xxlAlignSelf"
+    | "xxlZIndex"
+    | "xxxlJustifySelf"
+    | "xxxlAlignSelf"
+    | "xxxlZIndex"
+    | "xxxxlJustifySelf"
+    | "xxxxlAlignSelf"
+    | "xxxxlZIndex"
+    | "xsOrder"
+    | "smOrder"
+    | "mdOrder"
+    | "lgOrder"
+    | "xlOrder"
+    | "xxlOrder"
+    | "xxxlOrder"
+    | "xxxxlOrder"
+    | "xsAspectRatio"
+    | "xsMinWidth"
+    | "xsMaxWidth"
+    | "xsMinHeight"
+    | "xsMaxHeight"
+    | "smAspectRatio"
+    | "smMinWidth"
+    | "smMaxWidth"
+    | "smMinHeight"
+    | "smMaxHeight"
+    | "mdAspectRatio"
+    | "mdMinWidth"
+    | "mdMaxWidth"
+    | "mdMinHeight"
+    | "mdMaxHeight"
+    | "lgAspectRatio"
+    | "lgMinWidth"
+    | "lgMaxWidth"
+    | "lgMinHeight"
+    | "lgMaxHeight"
+    | "xlAspectRatio"
+    | "xlMinWidth"
+    | "xlMaxWidth"
+    | "xlMinHeight"
+    | "xlMaxHeight"
+    | "xxlAspectRatio"
+    | "xxlMinWidth"
+    | "xxlMaxWidth"
+    | "xxlMinHeight"
+    | "xxlMaxHeight"
+    | "xxxlAspectRatio"
+    | "xxxlMinWidth"
+    | "xxxlMaxWidth"
+    | "xxxlMinHeight"
+    | "xxxlMaxHeight"
+    | "xxxxlAspectRatio"
+    | "xxxxlMinWidth"
+    | "xxxxlMaxWidth"
+    | "xxxxlMinHeight"
+    | "xxxxlMaxHeight";
 
 /**
  * Item placement properties that are conditional on placementType
@@ -95,11 +167,51 @@ type ConditionalItemResponsiveProps =
  */
 type ConditionalItemPlacementProps = "gridArea" | "columnStart" | "columnEnd" | "rowStart" | "rowEnd";
 
+/**
+ * Item column system properties that are conditional on the container's enableColumnSystem
+ */
+type ConditionalItemColumnSystemProps =
+    | "span"
+    | "offset"
+    | "xsSpan"
+    | "xsOffset"
+    | "smSpan"
+    | "smOffset"
+    | "mdSpan"
+    | "mdOffset"
+    | "lgSpan"
+    | "lgOffset"
+    | "xlSpan"
+    | "xlOffset"
+    | "xxlSpan"
+    | "xxlOffset"
+    | "xxxlSpan"
+    | "xxxlOffset"
+    | "xxxxlSpan"
+    | "xxxxlOffset";
+
+/**
+ * Item visibility expression
+ * Datasource items only have one when the data source Visible expression is set
+ */
+type ConditionalItemVisibilityProps = "visible";
+
 /**
  * Runtime type for grid items with conditional properties
  * Used in the main component where properties might be undefined
+ *
+ * Items created from a datasource object carry the object id so that
+ * React keys stay stable when the list is reloaded or reordered
  */
-export type RuntimeGridItem = MakeOptional<ItemsType, ConditionalItemResponsiveProps | ConditionalItemPlacementProps>;
+export type RuntimeGridItem = MakeOptional<
+    ItemsType,
+    | ConditionalItemResponsiveProps
+    | ConditionalItemPlacementProps
+    | ConditionalItemColumnSystemProps
+    | ConditionalItemVisibilityProps
+> & {
+    objectId?: string;
+};
 
 /**
  * Preview type for grid items with conditional properties
@@ -107,7 +219,7 @@ export type RuntimeGridItem = MakeOptional<ItemsType, ConditionalItemResponsiveP
  */
 export type RuntimeGridItemPreview = MakeOptional<
     ItemsPreviewType,
-    ConditionalItemResponsiveProps | ConditionalItemPlacementProps
+    ConditionalItemResponsiveProps | ConditionalItemPlacementProps | ConditionalItemColumnSystemProps
 >;
 
 /**
@@ -249,6 +361,11 @@ type ConditionalContainerGapProps = "rowGap" | "columnGap";
  */
 type ConditionalContainerVirtualizationProps = "virtualizeThreshold";
 
+/**
+ * Container properties that are conditional on enableColumnSystem
+ */
+type ConditionalContainerColumnSystemProps = "columnCount";
+
 /**
  * Runtime type for container with conditional properties
  */
@@ -258,6 +375,7 @@ export type RuntimeGridContainer = MakeOptional<
     | ConditionalContainerAreaProps
     | ConditionalContainerGapProps
     | ConditionalContainerVirtualizationProps
+    | ConditionalContainerColumnSystemProps
 >;
 
 /**
@@ -269,6 +387,7 @@ export type RuntimeGridContainerPreview = MakeOptional<
     | ConditionalContainerAreaProps
     | ConditionalContainerGapProps
     | ConditionalContainerVirtualizationProps
+    | ConditionalContainerColumnSystemProps
 >;
 
 /**
@@ -0,0 +1,55 @@
+/**
+ * CSS Grid Editable Layout Type Definitions
+ *
+ * Types for the user-arranged layout that is stored as JSON
+ * in a String attribute when layout editing is enabled
+ */
+
+/**
+ * Placement of a single item in an edited layout
+ * All values are 1-based grid lines and spans in tracks
+ */
+export interface LayoutPlacement {
+    columnStart: number;
+    columnSpan: number;
+    rowStart: number;
+    rowSpan: number;
+}
+
+/**
+ * Span limits for resizing an item
+ * A maximum of 0 means no limit
+ */
+export interface SpanLimits {
+    minColumnSpan: number;
+    maxColumnSpan: number;
+    minRowSpan: number;
+    maxRowSpan: number;
+}
+
+/**
+ * Edited layout keyed by item (see getLayoutItemKey)
+ */
+export type GridLayout = Record<string, LayoutPlacement>;
+
+/**
+ * Edited layouts keyed by breakpoint (see getLayoutBreakpointKey)
+ * Each breakpoint has its own columns, so an arrangement only applies where it was made
+ */
+export type StoredLayouts = Record<string, GridLayout>;
+
+/**
+ * Grid cell position (1-based)
+ */
+export interface GridCell {
+    column: number;
+    row: number;
+}
+
+/**
+ * Resolved track offsets of a rendered grid, relative to its content box
+ */
+export interface GridTracks {
+    columns: number[];
+    rows: number[];
+}
@@ -0,0 +1,74 @@
+/**
+ * CSS Grid Placement Engine Type Definitions
+ *
+ * Types for the auto-placement engine that mirrors how the browser
+ * places items, so keyboard navigation and ARIA metadata match the layout
+ */
+
+import { GridItemPlacement } from "./ConditionalTypes";
+
+/**
+ * Grid auto-flow values as configured in the widget
+ */
+export type GridAutoFlow = "row" | "column" | "dense" | "columnDense";
+
+/**
+ * Arrow key direction for grid navigation
+ */
+export type GridDirection = "up" | "down" | "left" | "right";
+
+/**
+ * Start or end of a row or of the whole grid (Home/End keys)
+ */
+export type GridEdge = "start" | "end";
+
+/**
+ * Parsed grid line value of an item ("3", "content-start", "span 2", "span col")
+ * count is the line number or span, name the referenced line name
+ */
+export interface GridLineReference {
+    span: boolean;
+    count: number | null;
+    name: string | null;
+}
+
+/**
+ * Item to place, identified by its position in the widget's item list
+ */
+export interface PlacementEngineItem {
+    index: number;
+    placement: GridItemPlacement;
+}
+
+/**
+ * Input for the placement engine
+ */
+export interface PlacementEngineInput {
+    columns: string;
+    rows: string;
+    areas?: string;
+    autoFlow?: string;
+    items: PlacementEngineItem[];
+}
+
+/**
+ * Resolved position of an item (1-based tracks)
+ */
+export interface PlacedGridItem {
+    index: number;
+    columnStart: number;
+    columnSpan: number;
+    rowStart: number;
+    rowSpan: number;
+}
+
+/**
+ * Result of the placement engine
+ * cells[row][column] holds the index of the item covering that cell, or null
+ */
+export interface GridPlacementResult {
+    columnCount: number;
+    rowCount: number;
+    items: PlacedGridItem[];
+    cells: Array<Array<number | null>>;
+}
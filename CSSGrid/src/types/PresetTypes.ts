@@ -0,0 +1,30 @@
+/**
+ * CSS Grid Layout Preset Type Definitions
+ *
+ * Types for the built-in layout presets that fill in the container's
+ * templates, areas and gaps for common page patterns
+ */
+
+import { BreakpointSize } from "./BreakpointTypes";
+
+/**
+ * Templates and gap of one layout (the base layout or a breakpoint)
+ * The gap is a spacing token, so presets follow the theme's spacing scale
+ */
+export interface PresetLayout {
+    columns: string;
+    rows: string;
+    areas?: string;
+    gap?: string;
+}
+
+/**
+ * A layout preset: its caption, base layout and breakpoint adaptations
+ * Breakpoints are listed up to the first one that returns to the base layout,
+ * so the preset works in both exact and cascade responsive modes
+ */
+export interface LayoutPreset {
+    caption: string;
+    base: PresetLayout;
+    breakpoints: Partial<Record<BreakpointSize, PresetLayout>>;
+}
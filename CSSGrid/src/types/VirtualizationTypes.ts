@@ -0,0 +1,54 @@
+/**
+ * CSS Grid Virtualization Type Definitions
+ *
+ * Types for rendering only the visible rows of large uniform-row grids,
+ * keeping placeholders at the size of the items they replace and
+ * restoring the scroll position when the user returns to a page
+ */
+
+import { BreakpointSize } from "./BreakpointTypes";
+
+/**
+ * Range of rendered rows (0-based, inclusive)
+ */
+export interface WindowRange {
+    firstRow: number;
+    lastRow: number;
+}
+
+/**
+ * Measured track metrics of a windowed grid
+ */
+export interface WindowMetrics {
+    columnCount: number;
+    rowHeight: number;
+    rowGap: number;
+}
+
+/**
+ * Last measured border-box height of a rendered item
+ * The width is left to the grid track, which follows the container
+ */
+export interface ItemSize {
+    blockSize: number;
+}
+
+/**
+ * Measured item sizes for one breakpoint, keyed by item key
+ * Sizes from another breakpoint describe a different layout and are discarded
+ */
+export interface PlaceholderSizeCache {
+    breakpoint: BreakpointSize;
+    sizes: Record<string, ItemSize>;
+}
+
+/**
+ * Scroll position of a virtualized grid, stored so it can be restored
+ * itemOffset is the distance from the top of the visible area to the first visible item,
+ * scrollOffset the distance from the grid's first row to the top of the visible area
+ */
+export interface ScrollState {
+    firstIndex: number;
+    itemOffset: number;
+    scrollOffset: number;
+}
@@ -0,0 +1,131 @@
+/**
+ * Area Editor Helper Functions
+ *
+ * Editing of grid-template-areas as a cell matrix for the visual area editor
+ * in the editor preview. Every operation returns a new matrix, so the editor
+ * can keep it in React state.
+ *
+ * IMPORTANT: Like gridHelpers, this module avoids regex so it can also run in
+ * Mendix Studio Pro's Jint interpreter.
+ */
+
+import { parseGridAreas } from "./gridHelpers";
+
+/**
+ * Cell value of an unnamed cell
+ */
+export const EMPTY_AREA_CELL = ".";
+
+/**
+ * Build an editable matrix from a grid-template-areas value
+ * Short rows are padded with empty cells. Without areas, an empty matrix
+ * of the given size is created.
+ *
+ * @param areas - Grid template areas value
+ * @param columnCount - Columns of the empty matrix
+ * @param rowCount - Rows of the empty matrix
+ * @returns Rectangular matrix of area names
+ */
+export function createAreaMatrix(areas: string | undefined, columnCount: number, rowCount: number): string[][] {
+    const parsed = areas ? parseGridAreas(areas) : null;
+    if (parsed && parsed.length > 0) {
+        const width = Math.max(1, ...parsed.map(row => row.length));
+        return parsed.map(row => {
+            const cells = row.slice();
+            while (cells.length < width) {
+                cells.push(EMPTY_AREA_CELL);
+            }
+            return cells;
+        });
+    }
+
+    const matrix: string[][] = [];
+    for (let r = 0; r < Math.max(1, rowCount); r++) {
+        const row: string[] = [];
+        for (let c = 0; c < Math.max(1, columnCount); c++) {
+            row.push(EMPTY_AREA_CELL);
+        }
+        matrix.push(row);
+    }
+    return matrix;
+}
+
+/**
+ * Assign a cell to an area
+ *
+ * @param matrix - Current matrix
+ * @param row - 0-based row of the cell
+ * @param column - 0-based column of the cell
+ * @param name - Area name, or "." to clear the cell
+ * @returns New matrix
+ */
+export function paintAreaCell(matrix: string[][], row: number, column: number, name: string): string[][] {
+    if (matrix[row]?.[column] === undefined || matrix[row][column] === name) {
+        return matrix;
+    }
+    return matrix.map((cells, r) => (r === row ? cells.map((cell, c) => (c === column ? name : cell)) : cells));
+}
+
+/**
+ * Append an empty row
+ */
+export function addAreaRow(matrix: string[][]): string[][] {
+    const width = matrix.length > 0 ? matrix[0].length : 1;
+    const row: string[] = [];
+    for (let c = 0; c < width; c++) {
+        row.push(EMPTY_AREA_CELL);
+    }
+    return [...matrix, row];
+}
+
+/**
+ * Remove the last row, keeping at least one
+ */
+export function removeAreaRow(matrix: string[][]): string[][] {
+    return matrix.length > 1 ? matrix.slice(0, -1) : matrix;
+}
+
+/**
+ * Append an empty column
+ */
+export function addAreaColumn(matrix: string[][]): string[][] {
+    return matrix.map(row => [...row, EMPTY_AREA_CELL]);
+}
+
+/**
+ * Remove the last column, keeping at least one
+ */
+export function removeAreaColumn(matrix: string[][]): string[][] {
+    return matrix.length > 0 && matrix[0].length > 1 ? matrix.map(row => row.slice(0, -1)) : matrix;
+}
+
+/**
+ * Write a matrix as grid-template-areas text
+ * Cells are padded per column so the rows line up in the property editor
+ *
+ * @param matrix - Matrix of area names
+ * @returns One quoted line per row
+ */
+export function serializeAreaMatrix(matrix: string[][]): string {
+    const widths: number[] = [];
+    matrix.forEach(row =>
+        row.forEach((cell, column) => {
+            widths[column] = Math.max(widths[column] || 0, cell.length);
+        })
+    );
+
+    return matrix
+        .map(row => {
+            const cells = row.map((cell, column) => {
+                let padded = cell;
+                if (column < row.length - 1) {
+                    while (padded.length < widths[column]) {
+                        padded += " ";
+                    }
+                }
+                return padded;
+            });
+            return `"${cells.join(" ")}"`;
+        })
+        .join("\n");
+}
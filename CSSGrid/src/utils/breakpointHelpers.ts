@@ -7,7 +7,13 @@
  * Performance-optimized for both exact and cascade responsive modes.
  */
 
-import { BREAKPOINT_CONFIGS, BreakpointSize, BreakpointConfig } from "../types/BreakpointTypes";
+import {
+    BREAKPOINT_CONFIGS,
+    BreakpointSize,
+    BreakpointConfig,
+    BreakpointThresholds,
+    createBreakpointConfigs
+} from "../types/BreakpointTypes";
 import { normalizeValue } from "./stringHelpers";
 
 /**
@@ -15,17 +21,40 @@ import { normalizeValue } from "./stringHelpers";
  */
 export type ResponsiveMode = "exact" | "cascade";
 
+/**
+ * Resolves the breakpoint processing mode from the widget's responsiveMode setting
+ * Container modes use the same exact/cascade logic, only the measured width differs
+ *
+ * @param responsiveMode - Value of the responsiveMode property
+ * @returns Mode to pass to getBreakpointsToProcess
+ */
+export function getResponsiveMode(responsiveMode: string | undefined): ResponsiveMode {
+    return responsiveMode === "cascade" || responsiveMode === "containerCascade" ? "cascade" : "exact";
+}
+
+/**
+ * Checks whether breakpoints are resolved against the widget's own width
+ * instead of the viewport width
+ *
+ * @param responsiveMode - Value of the responsiveMode property
+ * @returns True for the container query modes
+ */
+export function isContainerResponsiveMode(responsiveMode: string | undefined): boolean {
+    return responsiveMode === "containerExact" || responsiveMode === "containerCascade";
+}
+
 /**
  * Performance-optimized function to find the currently active breakpoint
  * Used in exact mode to process only the relevant breakpoint
  */
 export function findActiveBreakpoint<T extends Record<string, any>>(
     currentWidth: number,
-    props: T
+    props: T,
+    configs: BreakpointConfig[] = BREAKPOINT_CONFIGS
 ): BreakpointConfig | null {
     // Iterate from largest to smallest to find the active breakpoint
-    for (let i = BREAKPOINT_CONFIGS.length - 1; i >= 0; i--) {
-        const config = BREAKPOINT_CONFIGS[i];
+    for (let i = configs.length - 1; i >= 0; i--) {
+        const config = configs[i];
         const enabledKey = `${config.size}Enabled` as keyof T;
 
         if (!props[enabledKey]) {
@@ -50,19 +79,178 @@ export function findActiveBreakpoint<T extends Record<string, any>>(
 export function getBreakpointsToProcess<T extends Record<string, any>>(
     responsiveMode: ResponsiveMode = "exact",
     currentWidth: number,
-    props: T
+    props: T,
+    configs: BreakpointConfig[] = BREAKPOINT_CONFIGS
 ): BreakpointConfig[] {
     if (responsiveMode === "exact") {
         // Exact mode: Only process the currently active breakpoint
-        const activeBreakpoint = findActiveBreakpoint(currentWidth, props);
+        const activeBreakpoint = findActiveBreakpoint(currentWidth, props, configs);
         return activeBreakpoint ? [activeBreakpoint] : [];
     } else {
         // Cascade mode: Process enabled breakpoints up to current width in order
-        return BREAKPOINT_CONFIGS.filter(config => {
-            const enabledKey = `${config.size}Enabled` as keyof T;
-            return props[enabledKey] && currentWidth >= config.minWidth;
-        }).sort((a, b) => a.minWidth - b.minWidth); // Ensure correct cascade order
+        return configs
+            .filter(config => {
+                const enabledKey = `${config.size}Enabled` as keyof T;
+                return props[enabledKey] && currentWidth >= config.minWidth;
+            })
+            .sort((a, b) => a.minWidth - b.minWidth); // Ensure correct cascade order
+    }
+}
+
+/**
+ * Get the breakpoint whose settings are in effect
+ * In cascade mode this is the largest enabled breakpoint at or below the current width,
+ * since its settings override the smaller ones. In exact mode, or when no breakpoint
+ * applies, it is the breakpoint the width falls in.
+ *
+ * @param responsiveMode - Exact or cascade processing
+ * @param currentWidth - Measured viewport or container width
+ * @param activeBreakpoint - Breakpoint the width falls in
+ * @param props - Container props with the xsEnabled... flags
+ * @param configs - Breakpoint widths for this instance
+ * @returns Effective breakpoint size
+ */
+export function getEffectiveBreakpoint<T extends Record<string, any>>(
+    responsiveMode: ResponsiveMode,
+    currentWidth: number,
+    activeBreakpoint: BreakpointSize,
+    props: T,
+    configs: BreakpointConfig[] = BREAKPOINT_CONFIGS
+): BreakpointSize {
+    if (responsiveMode !== "cascade") {
+        return activeBreakpoint;
     }
+    const cascade = getBreakpointsToProcess(responsiveMode, currentWidth, props, configs);
+    return cascade.length > 0 ? cascade[cascade.length - 1].size : activeBreakpoint;
+}
+
+/**
+ * Result of parsing user-defined breakpoint thresholds
+ */
+export interface BreakpointThresholdsParseResult {
+    thresholds: BreakpointThresholds;
+    error?: string;
+}
+
+/**
+ * Parses breakpoint minimum widths from a JSON object string
+ * Example: {"sm": 576, "md": 768, "lg": 992, "xl": 1200}
+ *
+ * Thresholds must be positive whole numbers and increase with breakpoint size.
+ * Invalid input yields no overrides and an error message.
+ *
+ * @param value - JSON string with breakpoint sizes as keys
+ * @returns Parsed thresholds and an optional error
+ */
+export function parseBreakpointThresholds(value: string | undefined): BreakpointThresholdsParseResult {
+    const trimmed = normalizeValue(value);
+    if (!trimmed) {
+        return { thresholds: {} };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch (e) {
+        return { thresholds: {}, error: 'Breakpoints must be a JSON object, e.g. {"sm": 576, "md": 768}' };
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        return { thresholds: {}, error: 'Breakpoints must be a JSON object, e.g. {"sm": 576, "md": 768}' };
+    }
+
+    const thresholds: BreakpointThresholds = {};
+    const entries = parsed as Record<string, unknown>;
+
+    for (const key of Object.keys(entries)) {
+        const config = BREAKPOINT_CONFIGS.find(bp => bp.size === key);
+        if (!config) {
+            return { thresholds: {}, error: `Unknown breakpoint "${key}"` };
+        }
+        if (config.size === "xs") {
+            return { thresholds: {}, error: "The xs breakpoint always starts at 0 and cannot be overridden" };
+        }
+
+        const minWidth = entries[key];
+        if (typeof minWidth !== "number" || !isFinite(minWidth) || minWidth <= 0 || Math.floor(minWidth) !== minWidth) {
+            return { thresholds: {}, error: `Breakpoint "${key}" must be a positive whole number of pixels` };
+        }
+
+        thresholds[config.size] = minWidth;
+    }
+
+    // Thresholds must keep the breakpoint order
+    const configs = createBreakpointConfigs(thresholds);
+    for (let i = 1; i < configs.length; i++) {
+        if (configs[i].minWidth <= configs[i - 1].minWidth) {
+            return {
+                thresholds: {},
+                error: `Breakpoint "${configs[i].size}" (${configs[i].minWidth}px) must be larger than "${
+                    configs[i - 1].size
+                }" (${configs[i - 1].minWidth}px)`
+            };
+        }
+    }
+
+    return { thresholds };
+}
+
+/**
+ * Reads breakpoint minimum widths from theme CSS variables on the document root
+ * Example (theme SCSS): :root { --css-grid-breakpoint-sm: 576px; --css-grid-breakpoint-md: 768px; }
+ *
+ * @returns Thresholds defined by the theme; missing or invalid variables are skipped
+ */
+export function readThemeBreakpointThresholds(): BreakpointThresholds {
+    if (typeof window === "undefined" || typeof document === "undefined" || !document.documentElement) {
+        return {};
+    }
+
+    const rootStyles = window.getComputedStyle(document.documentElement);
+    const values: Record<string, number> = {};
+
+    BREAKPOINT_CONFIGS.forEach(config => {
+        if (config.size === "xs") {
+            return;
+        }
+        const raw = rootStyles.getPropertyValue(`--css-grid-breakpoint-${config.size}`).trim();
+        const minWidth = parseInt(raw, 10);
+        if (raw && !isNaN(minWidth)) {
+            values[config.size] = minWidth;
+        }
+    });
+
+    const result = parseBreakpointThresholds(JSON.stringify(values));
+    if (result.error) {
+        console.warn(`CSSGrid: Ignoring theme breakpoints - ${result.error}`);
+    }
+    return result.thresholds;
+}
+
+/**
+ * Resolves the breakpoint configurations for a widget instance
+ *
+ * @param breakpointSource - "default", "custom" or "theme"
+ * @param customBreakpoints - JSON thresholds used by the "custom" source
+ * @returns Breakpoint configurations to use for this widget
+ */
+export function resolveBreakpointConfigs(
+    breakpointSource: string | undefined,
+    customBreakpoints: string | undefined
+): BreakpointConfig[] {
+    if (breakpointSource === "custom") {
+        const result = parseBreakpointThresholds(customBreakpoints);
+        if (result.error) {
+            console.warn(`CSSGrid: Ignoring custom breakpoints - ${result.error}`);
+        }
+        return createBreakpointConfigs(result.thresholds);
+    }
+
+    if (breakpointSource === "theme") {
+        return createBreakpointConfigs(readThemeBreakpointThresholds());
+    }
+
+    return BREAKPOINT_CONFIGS;
 }
 
 /**
@@ -309,10 +497,19 @@ export function getItemResponsivePropertyKeys(
         columnEnd: `${breakpoint}ColumnEnd`,
         rowStart: `${breakpoint}RowStart`,
         rowEnd: `${breakpoint}RowEnd`,
+        span: `${breakpoint}Span`,
+        offset: `${breakpoint}Offset`,
         justifySelf: `${breakpoint}JustifySelf`,
         alignSelf: `${breakpoint}AlignSelf`,
         zIndex: `${breakpoint}ZIndex`,
-        hidden: `${breakpoint}Hidden`
+        order: `${breakpoint}Order`,
+        aspectRatio: `${breakpoint}AspectRatio`,
+        minWidth: `${breakpoint}MinWidth`,
+        maxWidth: `${breakpoint}MaxWidth`,
+        minHeight: `${breakpoint}MinHeight`,
+        maxHeight: `${breakpoint}MaxHeight`,
+        hidden: `${breakpoint}Hidden`,
+        visible: `${breakpoint}Visible`
     };
 
     if (baseProperty) {
@@ -0,0 +1,141 @@
+/**
+ * Column System Helper Functions
+ *
+ * Bootstrap-style column system: the container has a fixed number of equal
+ * columns and items are sized with a numeric span and offset per breakpoint.
+ * Spans are translated into span or coordinate placements, so the rest of the
+ * widget (CSS variables, scoped style sheets, preview placement) handles them
+ * like any other placement.
+ */
+
+import { BREAKPOINT_CONFIGS } from "../types/BreakpointTypes";
+import { DEFAULT_COLUMN_SYSTEM_COLUMNS } from "./constants";
+
+/**
+ * Placement of a column system span
+ * Without an offset the item keeps flowing ("span N"), with an offset it starts at a fixed column
+ */
+export interface ColumnSystemPlacement {
+    placementType: "span" | "coordinates";
+    columnStart: string;
+    columnEnd: string;
+}
+
+/**
+ * Number of columns of the column system
+ * Missing or invalid counts fall back to the default of 12
+ */
+export function getColumnSystemCount(columnCount: number | null | undefined): number {
+    return columnCount && columnCount > 0 ? Math.floor(columnCount) : DEFAULT_COLUMN_SYSTEM_COLUMNS;
+}
+
+/**
+ * Column template of the column system
+ *
+ * @param columnCount - Number of columns
+ * @returns Template with equal columns that do not grow with their content
+ */
+export function getColumnSystemTemplate(columnCount: number): string {
+    return `repeat(${columnCount}, minmax(0, 1fr))`;
+}
+
+/**
+ * Translate a span and offset into a placement
+ *
+ * @param span - Number of columns, 0 when not set
+ * @param offset - Columns to leave empty before the item
+ * @returns Placement type and column lines, or null without a span
+ */
+export function getColumnSystemPlacement(
+    span: number | null | undefined,
+    offset: number | null | undefined
+): ColumnSystemPlacement | null {
+    if (!span || span < 1) {
+        return null;
+    }
+    if (offset && offset > 0) {
+        return { placementType: "coordinates", columnStart: String(offset + 1), columnEnd: `span ${span}` };
+    }
+    // The span shorthand also resets a start inherited from the base placement
+    return { placementType: "span", columnStart: `span ${span}`, columnEnd: "auto" };
+}
+
+/**
+ * Row lines to keep when an item switches to column system placement
+ * Coordinate and span placements keep their rows, other placement types flow
+ */
+function getColumnSystemRows(
+    placementType: unknown,
+    rowStart: unknown,
+    rowEnd: unknown
+): { rowStart: string; rowEnd: string } {
+    if (placementType === "coordinates") {
+        return { rowStart: (rowStart as string) || "auto", rowEnd: (rowEnd as string) || "auto" };
+    }
+    if (placementType === "span") {
+        return { rowStart: (rowStart as string) || "auto", rowEnd: "auto" };
+    }
+    return { rowStart: "auto", rowEnd: "auto" };
+}
+
+/**
+ * Apply the column system to an item
+ * The base layout and every enabled breakpoint with a span get a column system placement
+ *
+ * @param item - Item properties (runtime or preview values)
+ * @returns Item with the spans applied, or the same object without spans
+ */
+function applyItemColumnSystem<T extends Record<string, any>>(item: T): T {
+    const result: Record<string, unknown> = { ...item };
+    let changed = false;
+
+    const basePlacement = getColumnSystemPlacement(item.span, item.offset);
+    if (basePlacement) {
+        Object.assign(result, getColumnSystemRows(item.placementType, item.rowStart, item.rowEnd), basePlacement);
+        changed = true;
+    }
+
+    BREAKPOINT_CONFIGS.forEach(({ size }) => {
+        const placement = getColumnSystemPlacement(item[`${size}Span`], item[`${size}Offset`]);
+        if (!placement || !item[`${size}Enabled`]) {
+            return;
+        }
+
+        const rows = getColumnSystemRows(item[`${size}PlacementType`], item[`${size}RowStart`], item[`${size}RowEnd`]);
+        result[`${size}PlacementType`] = placement.placementType;
+        result[`${size}ColumnStart`] = placement.columnStart;
+        result[`${size}ColumnEnd`] = placement.columnEnd;
+        result[`${size}RowStart`] = rows.rowStart;
+        result[`${size}RowEnd`] = rows.rowEnd;
+        changed = true;
+    });
+
+    return changed ? (result as T) : item;
+}
+
+/**
+ * Apply the column system to the container and its static items
+ * The column templates of the grid and its breakpoints are replaced by equal columns.
+ * A new items array is built on every call, so callers that render should memoize the result.
+ *
+ * @param props - Container props (runtime or preview values)
+ * @returns Props with the column system applied, or the same object when it is off
+ */
+export function applyColumnSystem<
+    T extends { enableColumnSystem?: boolean; columnCount?: number | null; items?: Array<Record<string, any>> }
+>(props: T): T {
+    if (!props.enableColumnSystem) {
+        return props;
+    }
+
+    const template = getColumnSystemTemplate(getColumnSystemCount(props.columnCount));
+    const result: Record<string, unknown> = { ...props, gridTemplateColumns: template };
+    BREAKPOINT_CONFIGS.forEach(({ size }) => {
+        result[`${size}Columns`] = template;
+    });
+    if (props.items) {
+        result.items = props.items.map(applyItemColumnSystem);
+    }
+
+    return result as T;
+}
@@ -12,10 +12,16 @@ export const DEFAULT_VIRTUALIZATION_THRESHOLD = 100;
 export const VIRTUALIZATION_ROOT_MARGIN = "200px";
 export const VIRTUALIZATION_THRESHOLD_RATIO = 0.1;
 export const VIRTUALIZATION_BUFFER_SIZE = 10;
+export const VIRTUALIZATION_BUFFER_ROWS = 3;
+export const DEFAULT_WINDOW_ROW_HEIGHT = 100;
+export const SCROLL_RESTORE_ITEM_COUNT = 50;
+export const SCROLL_STATE_SAVE_DELAY = 200;
 export const RESIZE_DEBOUNCE_DELAY = 150;
 export const MEASUREMENT_DELAY = 100;
 export const INITIAL_RENDER_DELAY = 0;
 export const LARGE_GRID_THRESHOLD = 10;
+export const DEFAULT_MASONRY_ROW_SIZE = 8;
+export const DEFAULT_COLUMN_SYSTEM_COLUMNS = 12;
 
 // ============================================================================
 // Preview & Editor Constants
@@ -44,6 +50,7 @@ export const DEBUG_OVERLAY = {
     LINE_WIDTH: 1,
     LINE_LABEL_SIZE: 11,
     LINE_LABEL_PADDING: { x: 20, y: 16 },
+    LINE_LABEL_CHAR_WIDTH: 7,
     GAP_LABEL_SIZE: 10
 };
 
@@ -79,6 +86,37 @@ export const CSS_KEYWORDS = {
     gap: ["normal", "initial", "inherit", "unset"]
 };
 
+// ============================================================================
+// Gap Spacing Tokens
+// ============================================================================
+/**
+ * Spacing scale for gaps in token mode
+ * Maps to the Atlas theme's spacing variables, with Atlas' default sizes as fallback
+ */
+export const GAP_TOKENS: Record<string, string> = {
+    none: "0",
+    xs: "var(--spacing-smaller, 4px)",
+    s: "var(--spacing-small, 8px)",
+    m: "var(--spacing-medium, 16px)",
+    l: "var(--spacing-large, 24px)",
+    xl: "var(--spacing-larger, 32px)"
+};
+
+// ============================================================================
+// Item Size Constraints
+// ============================================================================
+/**
+ * Item size properties: breakpoint suffix, base property, CSS property and caption
+ * Responsive items get them as --css-grid__item-<cssProperty> variables
+ */
+export const ITEM_SIZE_PROPERTIES = [
+    { suffix: "AspectRatio", property: "aspectRatio", cssProperty: "aspect-ratio", label: "Aspect Ratio" },
+    { suffix: "MinWidth", property: "minWidth", cssProperty: "min-width", label: "Min Width" },
+    { suffix: "MaxWidth", property: "maxWidth", cssProperty: "max-width", label: "Max Width" },
+    { suffix: "MinHeight", property: "minHeight", cssProperty: "min-height", label: "Min Height" },
+    { suffix: "MaxHeight", property: "maxHeight", cssProperty: "max-height", label: "Max Height" }
+];
+
 // ============================================================================
 // Breakpoint Configuration
 // ============================================================================
@@ -205,7 +243,8 @@ export const CHAR_CODES = {
 // ============================================================================
 export const LAYOUT = {
     VIEWPORT_CHANGE_THRESHOLD: 200,
-    KEYBOARD_FOCUS_DELAY: 50,
+    ROOT_FONT_SIZE: 16,
+    KEYBOARD_PAGE_ROWS: 5,
     HYSTERESIS_BUFFER: 10,
     DEFAULT_COLUMN_COUNT: 1,
     DEFAULT_ROW_COUNT: 1
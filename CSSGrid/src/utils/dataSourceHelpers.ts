@@ -0,0 +1,102 @@
+/**
+ * Data Source Helper Functions
+ *
+ * Converts Mendix datasource objects into grid items with the same shape
+ * as statically configured items, so placement, alignment and accessibility
+ * logic is shared between both item sources.
+ */
+
+import { ListExpressionValue, ObjectItem } from "mendix";
+import { CSSGridContainerProps } from "../../typings/CSSGridProps";
+import { RuntimeGridItem } from "../types/ConditionalTypes";
+import { isPlacementTypeEnum } from "./typeValidation";
+import { safeTrim } from "./stringHelpers";
+import { warnOnce } from "./warningHelpers";
+
+/**
+ * Evaluates an optional list expression for a single object
+ *
+ * @param expression - List expression bound to the datasource
+ * @param object - Datasource object to evaluate against
+ * @returns Trimmed string value, or empty string when unavailable
+ */
+function getExpressionValue(expression: ListExpressionValue<string> | undefined, object: ObjectItem): string {
+    if (!expression) {
+        return "";
+    }
+    return safeTrim(expression.get(object).value);
+}
+
+/**
+ * Creates a runtime grid item for a single datasource object
+ * Placement values come from the per-object expressions, everything else
+ * from the container-level data source settings
+ *
+ * @param props - Widget properties from Mendix
+ * @param object - Datasource object to create the item for
+ * @param index - Position of the object in the datasource
+ * @returns Runtime grid item for the object
+ */
+export function createDataSourceGridItem(
+    props: CSSGridContainerProps,
+    object: ObjectItem,
+    index: number
+): RuntimeGridItem {
+    const rawPlacementType = getExpressionValue(props.dataPlacementType, object).toLowerCase();
+    let placementType: RuntimeGridItem["placementType"] = "auto";
+
+    if (rawPlacementType) {
+        if (isPlacementTypeEnum(rawPlacementType)) {
+            placementType = rawPlacementType;
+        } else {
+            warnOnce(
+                `Data source item ${index + 1}: Invalid placement type "${rawPlacementType}", defaulting to "auto"`
+            );
+        }
+    }
+
+    return {
+        objectId: object.id,
+        itemName: getExpressionValue(props.dataItemName, object),
+        content: props.dataContent?.get(object),
+        className: getExpressionValue(props.dataClass, object),
+        visible: props.dataVisible?.get(object),
+        renderAs: props.dataRenderAs,
+        placementType,
+        gridArea: getExpressionValue(props.dataGridArea, object) || undefined,
+        columnStart: getExpressionValue(props.dataColumnStart, object) || "auto",
+        columnEnd: getExpressionValue(props.dataColumnEnd, object) || "auto",
+        rowStart: getExpressionValue(props.dataRowStart, object) || "auto",
+        rowEnd: getExpressionValue(props.dataRowEnd, object) || "auto",
+        justifySelf: props.dataJustifySelf,
+        alignSelf: props.dataAlignSelf,
+        zIndex: "",
+        order: "",
+        aspectRatio: "",
+        minWidth: "",
+        maxWidth: "",
+        minHeight: "",
+        maxHeight: "",
+        subgridColumns: props.dataSubgridColumns,
+        subgridRows: props.dataSubgridRows,
+        minColumnSpan: 1,
+        maxColumnSpan: 0,
+        minRowSpan: 1,
+        maxRowSpan: 0,
+        enableResponsive: false
+    };
+}
+
+/**
+ * Creates runtime grid items for all loaded datasource objects
+ *
+ * @param props - Widget properties from Mendix
+ * @returns Runtime grid items, empty while the datasource is loading
+ */
+export function getDataSourceGridItems(props: CSSGridContainerProps): RuntimeGridItem[] {
+    const objects = props.dataSource?.items;
+    if (!objects) {
+        return [];
+    }
+    return objects.map((object, index) => createDataSourceGridItem(props, object, index));
+}
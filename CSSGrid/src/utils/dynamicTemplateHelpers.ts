@@ -0,0 +1,138 @@
+/**
+ * Dynamic Template Helper Functions
+ *
+ * Resolves the expression-driven variants of the container's templates and gap.
+ * A valid expression value replaces the static property, so one grid can switch
+ * layouts from data (e.g. a user preference attribute). Empty, loading or
+ * invalid values keep the static property. Values that could close their CSS
+ * declaration are rejected as well, since they end up in the scoped style sheet.
+ *
+ * Also drops template areas the browser would reject as a whole, so the layout
+ * falls back predictably and the reason is logged.
+ */
+
+import { DynamicValue } from "mendix";
+import { CSSGridContainerProps } from "../../typings/CSSGridProps";
+import { BREAKPOINT_CONFIGS } from "../types/BreakpointTypes";
+import { parseGridAreas } from "./gridHelpers";
+import { safeTrim } from "./stringHelpers";
+import {
+    getAreaShapeError,
+    getUnsafeCSSValueError,
+    validateGap,
+    validateGridTemplate,
+    validateGridTemplateAreas
+} from "./validationHelpers";
+
+/**
+ * Container props with the resolved values applied, and the values that were rejected
+ */
+export interface DynamicTemplateResult {
+    props: CSSGridContainerProps;
+    warnings: string[];
+}
+
+/**
+ * Read an expression's value once it is available
+ */
+function getDynamicValue(expression: DynamicValue<string> | undefined): string {
+    return expression?.status === "available" ? safeTrim(expression.value) : "";
+}
+
+/**
+ * Apply the dynamic columns, rows, areas and gap to the container props
+ * Invalid values are reported and fall back to the static property
+ *
+ * @param props - Widget properties from Mendix
+ * @returns Props with valid dynamic values applied, plus a warning per rejected value
+ */
+export function resolveDynamicTemplates(props: CSSGridContainerProps): DynamicTemplateResult {
+    const overrides: Partial<CSSGridContainerProps> = {};
+    const warnings: string[] = [];
+
+    const columns = getDynamicValue(props.dynamicColumns);
+    if (columns) {
+        const validation = validateGridTemplate(columns, "Dynamic Columns");
+        const error = getUnsafeCSSValueError(columns) ?? (validation.isValid ? undefined : validation.error);
+        if (error) {
+            warnings.push(`Ignoring dynamic columns "${columns}" - ${error}`);
+        } else {
+            overrides.gridTemplateColumns = columns;
+        }
+    }
+
+    const rows = getDynamicValue(props.dynamicRows);
+    if (rows) {
+        const validation = validateGridTemplate(rows, "Dynamic Rows");
+        const error = getUnsafeCSSValueError(rows) ?? (validation.isValid ? undefined : validation.error);
+        if (error) {
+            warnings.push(`Ignoring dynamic rows "${rows}" - ${error}`);
+        } else {
+            overrides.gridTemplateRows = rows;
+        }
+    }
+
+    const areas = props.useNamedAreas ? getDynamicValue(props.dynamicAreas) : "";
+    if (areas) {
+        const validation = validateGridTemplateAreas(areas);
+        const error = getUnsafeCSSValueError(areas) ?? (validation.valid ? undefined : validation.error);
+        if (error) {
+            warnings.push(`Ignoring dynamic areas - ${error}`);
+        } else {
+            overrides.gridTemplateAreas = areas;
+        }
+    }
+
+    const gap = getDynamicValue(props.dynamicGap);
+    if (gap) {
+        const validation = validateGap(gap, false, props.gapMode === "tokens");
+        const error = getUnsafeCSSValueError(gap) ?? (validation.isValid ? undefined : validation.error);
+        if (error) {
+            warnings.push(`Ignoring dynamic gap "${gap}" - ${error}`);
+        } else {
+            overrides.gap = gap;
+        }
+    }
+
+    return {
+        props: Object.keys(overrides).length > 0 ? { ...props, ...overrides } : props,
+        warnings
+    };
+}
+
+/**
+ * Drop template areas whose named areas are not single filled rectangles
+ * The browser ignores the whole grid-template-areas declaration for such values;
+ * dropping them instead lets a breakpoint fall back to the base areas.
+ *
+ * @param props - Widget properties, after resolveDynamicTemplates
+ * @returns Props without the rejected areas, plus a warning per rejected value
+ */
+export function resolveAreaTemplates(props: CSSGridContainerProps): DynamicTemplateResult {
+    if (!props.useNamedAreas) {
+        return { props, warnings: [] };
+    }
+
+    const overrides: Record<string, string> = {};
+    const warnings: string[] = [];
+
+    const checkAreas = (key: string, label: string): void => {
+        const areas = safeTrim(props[key as keyof CSSGridContainerProps] as string | undefined);
+        const rows = areas ? parseGridAreas(areas) : null;
+        const error = rows ? getAreaShapeError(rows) : undefined;
+        if (error) {
+            overrides[key] = "";
+            warnings.push(`Ignoring ${label} - ${error}`);
+        }
+    };
+
+    checkAreas("gridTemplateAreas", "template areas");
+    BREAKPOINT_CONFIGS.forEach(config =>
+        checkAreas(`${config.size}Areas`, `${config.size.toUpperCase()} template areas`)
+    );
+
+    return {
+        props: Object.keys(overrides).length > 0 ? { ...props, ...overrides } : props,
+        warnings
+    };
+}
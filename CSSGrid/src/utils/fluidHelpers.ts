@@ -0,0 +1,251 @@
+/**
+ * Fluid Sizing Helper Functions
+ *
+ * Instead of jumping at breakpoint boundaries, fluid gaps and size constraints
+ * grow linearly from their value at the smallest enabled breakpoint to their
+ * value at the largest one, between the minimum widths of those breakpoints.
+ * Outside that range the value stays at the nearest end.
+ *
+ * In container modes the values scale with the nearest size container around
+ * the grid (cqw) instead of the viewport. The grid's own min/max width is not
+ * fluid there, as it would change the width that selects the breakpoint.
+ *
+ * IMPORTANT: Avoids regex so it can also run in Mendix Studio Pro's Jint interpreter.
+ */
+
+import { BreakpointConfig } from "../types/BreakpointTypes";
+import { LAYOUT } from "./constants";
+import { safeTrim } from "./stringHelpers";
+
+/**
+ * Properties that can be fluid: breakpoint suffix, base property, CSS variable name and caption
+ * isWidth marks the grid's own width constraints, which are not fluid in container modes
+ */
+export const FLUID_PROPERTIES = [
+    { suffix: "Gap", property: "gap", cssVariable: "gap", label: "Gap", isWidth: false },
+    { suffix: "RowGap", property: "rowGap", cssVariable: "row-gap", label: "Row Gap", isWidth: false },
+    { suffix: "ColumnGap", property: "columnGap", cssVariable: "column-gap", label: "Column Gap", isWidth: false },
+    { suffix: "MinHeight", property: "minHeight", cssVariable: "min-height", label: "Min Height", isWidth: false },
+    { suffix: "MaxHeight", property: "maxHeight", cssVariable: "max-height", label: "Max Height", isWidth: false },
+    { suffix: "MinWidth", property: "minWidth", cssVariable: "min-width", label: "Min Width", isWidth: true },
+    { suffix: "MaxWidth", property: "maxWidth", cssVariable: "max-width", label: "Max Width", isWidth: true }
+];
+
+/**
+ * How fluid values are generated
+ * width resolves the values for a known width (e.g. the editor preview) instead of
+ * returning clamp() expressions; containerUnits selects container modes
+ */
+export interface FluidOptions {
+    width?: number;
+    containerUnits?: boolean;
+}
+
+const FLUID_UNITS = ["px", "rem"];
+
+/**
+ * A length that can be interpolated
+ * Unitless zero has no unit and combines with either unit
+ */
+interface FluidLength {
+    value: number;
+    unit: string | null;
+}
+
+/**
+ * Interpolation of one property between two breakpoint widths
+ */
+export interface FluidRange {
+    minValue: number;
+    maxValue: number;
+    minWidth: number;
+    maxWidth: number;
+    unit: string;
+}
+
+/**
+ * Parse a px or rem length
+ */
+function parseFluidLength(value: string | undefined): FluidLength | null {
+    const trimmed = safeTrim(value);
+    if (trimmed === "0") {
+        return { value: 0, unit: null };
+    }
+
+    for (const unit of FLUID_UNITS) {
+        if (trimmed.endsWith(unit)) {
+            const numPart = trimmed.substring(0, trimmed.length - unit.length);
+            const num = Number(numPart);
+            if (numPart !== "" && !isNaN(num)) {
+                return { value: num, unit };
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Round to 4 decimals to keep the generated CSS readable
+ */
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Get the smallest and largest enabled breakpoint
+ *
+ * @returns Both breakpoints, or null with fewer than two enabled breakpoints
+ */
+export function getFluidBreakpoints(
+    props: Record<string, any>,
+    configs: BreakpointConfig[]
+): { smallest: BreakpointConfig; largest: BreakpointConfig } | null {
+    const enabled = configs.filter(config => props[`${config.size}Enabled`]);
+    if (enabled.length < 2) {
+        return null;
+    }
+    return { smallest: enabled[0], largest: enabled[enabled.length - 1] };
+}
+
+/**
+ * Get a property's value at a breakpoint, falling back to the base value
+ *
+ * @param props - Container props
+ * @param size - Breakpoint
+ * @param suffix - Breakpoint property suffix, e.g. "Gap"
+ * @param property - Base property, e.g. "gap"
+ */
+export function getFluidEndpointValue(
+    props: Record<string, any>,
+    size: string,
+    suffix: string,
+    property: string
+): string {
+    return safeTrim(props[`${size}${suffix}`]) || safeTrim(props[property]);
+}
+
+/**
+ * Get the interpolation of a property between the smallest and largest enabled breakpoint
+ *
+ * @param props - Container props
+ * @param configs - Breakpoint widths
+ * @param suffix - Breakpoint property suffix, e.g. "Gap"
+ * @param property - Base property, e.g. "gap"
+ * @returns The range, or null when the values are equal, missing or not px/rem lengths of the same unit
+ */
+export function getFluidRange(
+    props: Record<string, any>,
+    configs: BreakpointConfig[],
+    suffix: string,
+    property: string
+): FluidRange | null {
+    const breakpoints = getFluidBreakpoints(props, configs);
+    if (!breakpoints || breakpoints.largest.minWidth <= breakpoints.smallest.minWidth) {
+        return null;
+    }
+
+    const start = parseFluidLength(getFluidEndpointValue(props, breakpoints.smallest.size, suffix, property));
+    const end = parseFluidLength(getFluidEndpointValue(props, breakpoints.largest.size, suffix, property));
+    if (!start || !end || start.value === end.value) {
+        return null;
+    }
+    if (start.unit && end.unit && start.unit !== end.unit) {
+        return null;
+    }
+
+    return {
+        minValue: start.value,
+        maxValue: end.value,
+        minWidth: breakpoints.smallest.minWidth,
+        maxWidth: breakpoints.largest.minWidth,
+        unit: start.unit || end.unit || "px"
+    };
+}
+
+/**
+ * Format a range as a clamp() expression on the viewport or container width
+ *
+ * @param range - Interpolation of the property
+ * @param widthUnit - vw for the viewport, cqw for the nearest size container
+ * @returns e.g. "clamp(8px, calc(8px + 1.5625vw), 24px)" from 8px at 0px to 24px at 1024px
+ */
+export function formatFluidClamp(range: FluidRange, widthUnit: "vw" | "cqw" = "vw"): string {
+    const unitSize = range.unit === "rem" ? LAYOUT.ROOT_FONT_SIZE : 1;
+    // Growth in pixels per pixel of width, i.e. per 1/100 of 100vw
+    const slope = ((range.maxValue - range.minValue) * unitSize) / (range.maxWidth - range.minWidth);
+    const intercept = range.minValue - (slope * range.minWidth) / unitSize;
+    const viewportTerm = round(Math.abs(slope * 100));
+    const preferred = `calc(${round(intercept)}${range.unit} ${slope < 0 ? "-" : "+"} ${viewportTerm}${widthUnit})`;
+
+    const lower = Math.min(range.minValue, range.maxValue);
+    const upper = Math.max(range.minValue, range.maxValue);
+    return `clamp(${round(lower)}${range.unit}, ${preferred}, ${round(upper)}${range.unit})`;
+}
+
+/**
+ * Resolve a range for a known width
+ * Used where the width is not the viewport's, e.g. the editor preview
+ *
+ * @param range - Interpolation of the property
+ * @param width - Width to resolve for, in pixels
+ * @returns Length at that width
+ */
+export function resolveFluidRange(range: FluidRange, width: number): string {
+    const progress = Math.min(1, Math.max(0, (width - range.minWidth) / (range.maxWidth - range.minWidth)));
+    return `${round(range.minValue + (range.maxValue - range.minValue) * progress)}${range.unit}`;
+}
+
+/**
+ * Get the fluid value of every property that can be interpolated
+ *
+ * @param props - Container props
+ * @param configs - Breakpoint widths
+ * @param options - Width to resolve for and whether container modes are used
+ * @returns Fluid values by breakpoint property suffix (e.g. "Gap")
+ */
+export function getFluidValues(
+    props: Record<string, any>,
+    configs: BreakpointConfig[],
+    options: FluidOptions = {}
+): Record<string, string> {
+    const values: Record<string, string> = {};
+    FLUID_PROPERTIES.forEach(({ suffix, property, isWidth }) => {
+        if (isWidth && options.containerUnits) {
+            return;
+        }
+        const range = getFluidRange(props, configs, suffix, property);
+        if (range) {
+            values[suffix] =
+                options.width === undefined
+                    ? formatFluidClamp(range, options.containerUnits ? "cqw" : "vw")
+                    : resolveFluidRange(range, options.width);
+        }
+    });
+    return values;
+}
+
+/**
+ * Replace the base values with the fluid values and drop the breakpoints' own values
+ * Used for the scoped style sheet, which reads the values from the props
+ *
+ * @param props - Container props
+ * @param fluidValues - Values from getFluidValues
+ * @param configs - Breakpoint widths
+ * @returns Props with the fluid values applied
+ */
+export function applyFluidValues<T extends Record<string, any>>(
+    props: T,
+    fluidValues: Record<string, string>,
+    configs: BreakpointConfig[]
+): T {
+    const result: Record<string, unknown> = { ...props };
+    FLUID_PROPERTIES.forEach(({ suffix, property }) => {
+        if (fluidValues[suffix]) {
+            result[property] = fluidValues[suffix];
+            configs.forEach(config => {
+                result[`${config.size}${suffix}`] = "";
+            });
+        }
+    });
+    return result as T;
+}
@@ -0,0 +1,61 @@
+/**
+ * Gap Token Helper Functions
+ *
+ * In token mode the gap properties take names from a spacing scale
+ * (none, xs, s, m, l, xl) that map to the Atlas theme's spacing variables,
+ * so grids across an app share the same spacing. Raw CSS values still pass
+ * through unchanged; Studio Pro reports them.
+ */
+
+import { BREAKPOINT_CONFIGS } from "../types/BreakpointTypes";
+import { GAP_TOKENS } from "./constants";
+import { safeTrim } from "./stringHelpers";
+
+/**
+ * Gap properties of the base layout, and their suffixes on breakpoints
+ */
+const GAP_PROPERTIES = ["gap", "rowGap", "columnGap"];
+const BREAKPOINT_GAP_SUFFIXES = ["Gap", "RowGap", "ColumnGap"];
+
+/**
+ * Names of the spacing scale, smallest first
+ */
+export const GAP_TOKEN_NAMES = Object.keys(GAP_TOKENS);
+
+/**
+ * Get the CSS value of a spacing token
+ *
+ * @param value - Gap property value
+ * @returns CSS value of the token, or undefined when the value is not a token
+ */
+export function getGapTokenValue(value: string | null | undefined): string | undefined {
+    const name = safeTrim(value).toLowerCase();
+    return Object.prototype.hasOwnProperty.call(GAP_TOKENS, name) ? GAP_TOKENS[name] : undefined;
+}
+
+/**
+ * Replace spacing tokens in the gap properties with their CSS values
+ * Only applies in token mode; raw values are left as they are
+ *
+ * @param props - Container props (runtime or preview values)
+ * @returns Props with tokens resolved, or the same object outside token mode
+ */
+export function resolveGapTokens<T extends { gapMode?: string }>(props: T): T {
+    if (props.gapMode !== "tokens") {
+        return props;
+    }
+
+    const source = props as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...props };
+    const resolve = (key: string): void => {
+        const value = getGapTokenValue(source[key] as string | undefined);
+        if (value !== undefined) {
+            result[key] = value;
+        }
+    };
+
+    GAP_PROPERTIES.forEach(resolve);
+    BREAKPOINT_CONFIGS.forEach(({ size }) => BREAKPOINT_GAP_SUFFIXES.forEach(suffix => resolve(`${size}${suffix}`)));
+
+    return result as T;
+}
@@ -11,24 +11,29 @@
 
 import { CSSProperties } from "react";
 import { RuntimeGridContainer, RuntimeGridItem, GridItemPlacement } from "../types/ConditionalTypes";
-import { CHAR_CODES } from "./constants";
-import { normalizeValue } from "./stringHelpers";
-import { forEachEnabledBreakpoint, forEachEnabledItemBreakpoint } from "./breakpointHelpers";
-import { BREAKPOINT_CONFIGS } from "../types/BreakpointTypes";
+import { GridLineReference } from "../types/PlacementTypes";
+import { CHAR_CODES, ITEM_SIZE_PROPERTIES } from "./constants";
+import { normalizeValue, safeTrim } from "./stringHelpers";
+import { getSafeCSSValue } from "./cssEnumMappings";
+import {
+    forEachBreakpoint,
+    forEachEnabledBreakpoint,
+    forEachEnabledItemBreakpoint,
+    ResponsiveMode
+} from "./breakpointHelpers";
+import { BREAKPOINT_CONFIGS, BreakpointConfig, BreakpointSize } from "../types/BreakpointTypes";
 
 // normalizeValue function is now imported from ./stringHelpers
 
 /**
- * Parse CSS grid template string and expand repeat() functions
+ * Split a grid template into tokens and expand repeat() functions
+ * Line name groups ("[name]") are kept as single tokens
  * Implements manual parsing without regex to ensure compatibility
  * with Mendix Studio Pro's Jint environment
- *
- * @param template - Grid template string (e.g., "1fr 2fr 1fr" or "repeat(3, 1fr)")
- * @returns Array of grid track values
  */
-export function parseGridTemplate(template: string): string[] {
+function tokenizeGridTemplate(template: string): string[] {
     if (!template || template.trim() === "") {
-        return ["1fr"];
+        return [];
     }
 
     let expandedTemplate = template;
@@ -99,6 +104,12 @@ export function parseGridTemplate(template: string): string[] {
     for (let i = 0; i < expandedTemplate.length; i++) {
         const char = expandedTemplate[i];
 
+        // Line name groups are tokens of their own, even without surrounding spaces
+        if (char === "[" && depth === 0 && current.trim()) {
+            parts.push(current.trim());
+            current = "";
+        }
+
         if (char === "(" || char === "[") {
             depth++;
         } else if (char === ")" || char === "]") {
@@ -112,6 +123,10 @@ export function parseGridTemplate(template: string): string[] {
             current = "";
         } else {
             current += char;
+            if (char === "]" && depth === 0) {
+                parts.push(current.trim());
+                current = "";
+            }
         }
     }
 
@@ -119,12 +134,138 @@ export function parseGridTemplate(template: string): string[] {
         parts.push(current.trim());
     }
 
-    return parts.length > 0 ? parts : ["1fr"];
+    return parts;
+}
+
+/**
+ * Parse CSS grid template string and expand repeat() functions
+ * Line names are not tracks and are left out, see parseGridLineNames
+ *
+ * @param template - Grid template string (e.g., "1fr 2fr 1fr" or "repeat(3, 1fr)")
+ * @returns Array of grid track values
+ */
+export function parseGridTemplate(template: string): string[] {
+    const tracks = tokenizeGridTemplate(template).filter(token => token.charAt(0) !== "[");
+    return tracks.length > 0 ? tracks : ["1fr"];
+}
+
+/**
+ * Parse the line names of a grid template
+ * Adjacent groups ("[a] [b]") name the same line
+ *
+ * @param template - Grid template string (e.g., "[full-start] 1fr [content-start] 3fr [content-end]")
+ * @returns Names per line, index 0 being line 1
+ */
+export function parseGridLineNames(template: string): string[][] {
+    const lines: string[][] = [[]];
+
+    tokenizeGridTemplate(template).forEach(token => {
+        if (token.charAt(0) !== "[") {
+            lines.push([]);
+            return;
+        }
+        const names = lines[lines.length - 1];
+        token
+            .substring(1, token.length - 1)
+            .split(" ")
+            .forEach(name => {
+                const trimmed = name.trim();
+                if (trimmed && names.indexOf(trimmed) === -1) {
+                    names.push(trimmed);
+                }
+            });
+    });
+
+    return lines;
+}
+
+/**
+ * Collect the line names an item can reference on one axis
+ * Named areas add implicit "<area>-start" and "<area>-end" lines
+ *
+ * @param template - Grid template of the axis
+ * @param areaNames - Named areas of the grid
+ * @returns Set of line names
+ */
+export function getDefinedLineNames(template: string, areaNames: string[] = []): Set<string> {
+    const names = new Set<string>();
+    parseGridLineNames(template).forEach(line => line.forEach(name => names.add(name)));
+    areaNames.forEach(area => {
+        names.add(`${area}-start`);
+        names.add(`${area}-end`);
+    });
+    return names;
+}
+
+/**
+ * Parse a grid line value ("3", "content-start", "col 2", "span 2", "span content-end")
+ * Implements the grid-line syntax with simple token checks instead of regex
+ *
+ * @param value - Item start or end value
+ * @returns Parsed reference, or null when the value is empty, auto or invalid
+ */
+export function parseGridLine(value: string | undefined): GridLineReference | null {
+    const normalized = normalizeValue(value);
+    if (!normalized || normalized.trim() === "auto") {
+        return null;
+    }
+
+    const reference: GridLineReference = { span: false, count: null, name: null };
+    const tokens = normalized.split(" ").filter(token => token !== "");
+
+    for (const token of tokens) {
+        const count = parseInt(token, 10);
+
+        if (token === "span" && !reference.span) {
+            reference.span = true;
+        } else if (!isNaN(count) && String(count) === token && reference.count === null) {
+            reference.count = count;
+        } else if (
+            reference.name === null &&
+            token !== "auto" &&
+            token !== "span" &&
+            !isNullAreaCell(token) &&
+            isValidAreaName(token)
+        ) {
+            reference.name = token;
+        } else {
+            return null;
+        }
+    }
+
+    if (reference.count === 0 || (reference.span && reference.count !== null && reference.count < 0)) {
+        return null;
+    }
+    if (reference.count === null && reference.name === null) {
+        return null;
+    }
+
+    return reference;
+}
+
+/**
+ * Check if an area cell is a null cell
+ * Any sequence of dots is a null cell in CSS, e.g. "." or "..."
+ *
+ * @param cell - Cell token of a grid-template-areas row
+ * @returns true for a null cell
+ */
+export function isNullAreaCell(cell: string): boolean {
+    if (!cell) {
+        return false;
+    }
+    for (const char of cell) {
+        if (char !== ".") {
+            return false;
+        }
+    }
+    return true;
 }
 
 /**
  * Parse grid template areas string into a 2D array
  * NO AUTOMATIC QUOTE ADDITION - uses the value exactly as provided
+ * Null cells of any length ("...") are returned as a single "."
  * Implements manual parsing without split() to ensure Jint compatibility
  *
  * @param areas - Grid template areas string
@@ -175,7 +316,7 @@ export function parseGridAreas(areas: string): string[][] | null {
                 const char = line[i];
                 if (char === " " || char === "\t") {
                     if (currentCell) {
-                        cells.push(currentCell);
+                        cells.push(isNullAreaCell(currentCell) ? "." : currentCell);
                         currentCell = "";
                     }
                 } else {
@@ -183,7 +324,7 @@ export function parseGridAreas(areas: string): string[][] | null {
                 }
             }
             if (currentCell) {
-                cells.push(currentCell);
+                cells.push(isNullAreaCell(currentCell) ? "." : currentCell);
             }
 
             if (cells.length > 0) {
@@ -222,7 +363,7 @@ export function parseGridAreas(areas: string): string[][] | null {
                 const char = line[i];
                 if (char === " " || char === "\t") {
                     if (currentCell) {
-                        cells.push(currentCell);
+                        cells.push(isNullAreaCell(currentCell) ? "." : currentCell);
                         currentCell = "";
                     }
                 } else {
@@ -230,7 +371,7 @@ export function parseGridAreas(areas: string): string[][] | null {
                 }
             }
             if (currentCell) {
-                cells.push(currentCell);
+                cells.push(isNullAreaCell(currentCell) ? "." : currentCell);
             }
 
             if (cells.length > 0) {
@@ -242,19 +383,149 @@ export function parseGridAreas(areas: string): string[][] | null {
     }
 }
 
+/**
+ * Build the media query prelude for a breakpoint
+ * Exact mode limits a rule to the breakpoint's own range, cascade mode
+ * applies it from the breakpoint's minimum width upwards
+ *
+ * @param config - Breakpoint configuration with resolved widths
+ * @param exactRange - Whether to include the maximum width
+ * @returns Media query prelude, or empty string when the rule applies at all widths
+ */
+function getBreakpointMediaQuery(config: BreakpointConfig, exactRange: boolean): string {
+    const conditions: string[] = [];
+
+    if (config.minWidth > 0) {
+        conditions.push(`(min-width: ${config.minWidth}px)`);
+    }
+    if (exactRange && config.maxWidth !== undefined) {
+        conditions.push(`(max-width: ${config.maxWidth}px)`);
+    }
+
+    return conditions.length > 0 ? `@media ${conditions.join(" and ")}` : "";
+}
+
+/**
+ * Format a CSS rule, optionally wrapped in a media query
+ *
+ * @param selector - CSS selector for the rule
+ * @param rules - CSS declarations
+ * @param mediaQuery - Media query prelude (empty for an unconditional rule)
+ * @returns CSS rule text
+ */
+function formatCSSRule(selector: string, rules: string[], mediaQuery = ""): string {
+    const block = `${selector} {\n    ${rules.join("\n    ")}\n}`;
+    if (!mediaQuery) {
+        return block;
+    }
+    return `${mediaQuery} {\n    ${block.split("\n").join("\n    ")}\n}`;
+}
+
+/**
+ * Build container declarations from a value getter
+ * Shared by the base rule and the breakpoint overrides
+ *
+ * @param getValue - Returns the normalized value for a property suffix (e.g. "Columns")
+ * @param useNamedAreas - Whether named areas are enabled
+ * @returns CSS declarations for the values that are set
+ */
+function buildContainerRules(getValue: (prop: string) => string | undefined, useNamedAreas: boolean): string[] {
+    const rules: string[] = [];
+
+    const columns = getValue("Columns");
+    const rows = getValue("Rows");
+    const areas = getValue("Areas");
+    const gap = getValue("Gap");
+    const rowGap = getValue("RowGap");
+    const columnGap = getValue("ColumnGap");
+    const autoFlow = getValue("AutoFlow");
+    const autoRows = getValue("AutoRows");
+    const autoColumns = getValue("AutoColumns");
+    const justifyItems = getValue("JustifyItems");
+    const alignItems = getValue("AlignItems");
+    const justifyContent = getValue("JustifyContent");
+    const alignContent = getValue("AlignContent");
+    const minHeight = getValue("MinHeight");
+    const maxHeight = getValue("MaxHeight");
+    const minWidth = getValue("MinWidth");
+    const maxWidth = getValue("MaxWidth");
+
+    if (columns) {
+        rules.push(`grid-template-columns: ${columns};`);
+    }
+    if (rows) {
+        rules.push(`grid-template-rows: ${rows};`);
+    }
+    if (gap) {
+        rules.push(`gap: ${gap};`);
+    } else {
+        if (rowGap) {
+            rules.push(`row-gap: ${rowGap};`);
+        }
+        if (columnGap) {
+            rules.push(`column-gap: ${columnGap};`);
+        }
+    }
+    if (areas && useNamedAreas) {
+        rules.push(`grid-template-areas: ${areas};`);
+    }
+    if (autoFlow) {
+        rules.push(`grid-auto-flow: ${getSafeCSSValue("autoFlow", autoFlow, autoFlow)};`);
+    }
+    if (autoRows) {
+        rules.push(`grid-auto-rows: ${autoRows};`);
+    }
+    if (autoColumns) {
+        rules.push(`grid-auto-columns: ${autoColumns};`);
+    }
+    if (justifyItems) {
+        rules.push(`justify-items: ${justifyItems};`);
+    }
+    if (alignItems) {
+        rules.push(`align-items: ${alignItems};`);
+    }
+    if (justifyContent) {
+        rules.push(`justify-content: ${getSafeCSSValue("justifyContent", justifyContent, justifyContent)};`);
+    }
+    if (alignContent) {
+        rules.push(`align-content: ${getSafeCSSValue("alignContent", alignContent, alignContent)};`);
+    }
+    if (minHeight) {
+        rules.push(`min-height: ${minHeight};`);
+    }
+    if (maxHeight) {
+        rules.push(`max-height: ${maxHeight};`);
+    }
+    if (minWidth) {
+        rules.push(`min-width: ${minWidth};`);
+    }
+    if (maxWidth) {
+        rules.push(`max-width: ${maxWidth};`);
+        rules.push(`margin-left: auto;`);
+        rules.push(`margin-right: auto;`);
+    }
+
+    return rules;
+}
+
 /**
  * Generate CSS for container responsive breakpoints
- * Uses mobile-first approach with proper normalization
+ * Emits the base configuration followed by one media query per enabled breakpoint,
+ * so the browser switches layouts without a React re-render
  *
  * @param props - Container props with responsive settings
- * @param className - CSS class name for the grid container
+ * @param className - CSS selector for the grid container
  * @param useNamedAreas - Whether named areas are enabled
+ * @param configs - Breakpoint widths to generate media queries for
+ * @param mode - Exact ranges or mobile-first cascade
  * @returns CSS string with media queries
  */
 export function generateContainerBreakpointStyles(
     props: RuntimeGridContainer,
     className: string,
-    useNamedAreas = false
+    useNamedAreas = false,
+    configs: BreakpointConfig[] = BREAKPOINT_CONFIGS,
+    mode: ResponsiveMode = "cascade"
 ): string {
     if (!props.enableBreakpoints) {
         return "";
@@ -262,143 +533,199 @@ export function generateContainerBreakpointStyles(
 
     const cssRules: string[] = [];
 
+    // Base configuration applies at every width, breakpoints only override what they set
+    const baseValues: Record<string, string | undefined> = {
+        Columns: normalizeValue(props.gridTemplateColumns) || "1fr",
+        Rows: normalizeValue(props.gridTemplateRows) || "auto",
+        Areas: normalizeValue(props.gridTemplateAreas),
+        Gap: normalizeValue(props.gap),
+        RowGap: normalizeValue(props.rowGap),
+        ColumnGap: normalizeValue(props.columnGap),
+        AutoFlow: props.autoFlow,
+        AutoRows: normalizeValue(props.autoRows),
+        AutoColumns: normalizeValue(props.autoColumns),
+        JustifyItems: props.justifyItems,
+        AlignItems: props.alignItems,
+        JustifyContent: props.justifyContent,
+        AlignContent: props.alignContent,
+        MinHeight: normalizeValue(props.minHeight),
+        MaxHeight: normalizeValue(props.maxHeight),
+        MinWidth: normalizeValue(props.minWidth),
+        MaxWidth: normalizeValue(props.maxWidth)
+    };
+    cssRules.push(
+        formatCSSRule(className, ["display: grid;", ...buildContainerRules(prop => baseValues[prop], useNamedAreas)])
+    );
+
     // Process each enabled breakpoint using helper
     forEachEnabledBreakpoint(props, (config, getProperty, getNormalizedProperty) => {
-        const rules: string[] = [];
-
-        // Get breakpoint-specific values with normalization using helper
-        const columns = getNormalizedProperty("Columns");
-        const rows = getNormalizedProperty("Rows");
-        const areas = getNormalizedProperty("Areas");
-        const gap = getNormalizedProperty("Gap");
-        const rowGap = getNormalizedProperty("RowGap");
-        const columnGap = getNormalizedProperty("ColumnGap");
-        const autoFlow = getProperty("AutoFlow");
-        const autoRows = getNormalizedProperty("AutoRows");
-        const autoColumns = getNormalizedProperty("AutoColumns");
-        const justifyItems = getProperty("JustifyItems");
-        const alignItems = getProperty("AlignItems");
-        const justifyContent = getProperty("JustifyContent");
-        const alignContent = getProperty("AlignContent");
-        const minHeight = getNormalizedProperty("MinHeight");
-        const maxHeight = getNormalizedProperty("MaxHeight");
-        const minWidth = getNormalizedProperty("MinWidth");
-        const maxWidth = getNormalizedProperty("MaxWidth");
-
-        if (columns) {
-            rules.push(`grid-template-columns: ${columns};`);
-        }
-        if (rows) {
-            rules.push(`grid-template-rows: ${rows};`);
-        }
-        if (gap) {
-            rules.push(`gap: ${gap};`);
-        } else {
-            if (rowGap) {
-                rules.push(`row-gap: ${rowGap};`);
-            }
-            if (columnGap) {
-                rules.push(`column-gap: ${columnGap};`);
+        const rules = buildContainerRules(
+            prop => getNormalizedProperty(prop) || (getProperty(prop) as string | undefined),
+            useNamedAreas
+        );
+
+        if (rules.length > 0) {
+            const bpConfig = configs.find(bp => bp.size === config.size);
+            if (!bpConfig) {
+                return;
             }
+
+            // Breakpoints are visited smallest first, so larger breakpoints override smaller ones
+            cssRules.push(formatCSSRule(className, rules, getBreakpointMediaQuery(bpConfig, mode === "exact")));
         }
-        if (areas && useNamedAreas) {
-            rules.push(`grid-template-areas: ${areas};`);
-        }
-        if (autoFlow) {
-            // Map enumeration values to CSS
-            const flowMapping: Record<string, string> = {
-                row: "row",
-                column: "column",
-                dense: "dense",
-                columnDense: "column dense"
-            };
-            rules.push(`grid-auto-flow: ${flowMapping[autoFlow] || autoFlow};`);
-        }
-        if (autoRows) {
-            rules.push(`grid-auto-rows: ${autoRows};`);
-        }
-        if (autoColumns) {
-            rules.push(`grid-auto-columns: ${autoColumns};`);
-        }
-        if (justifyItems) {
-            rules.push(`justify-items: ${justifyItems};`);
-        }
-        if (alignItems) {
-            rules.push(`align-items: ${alignItems};`);
+    });
+
+    return cssRules.join("\n");
+}
+
+/**
+ * Build item placement declarations from a value getter
+ * Shared by the base rule and the breakpoint overrides
+ *
+ * @param placementType - Placement type to build declarations for
+ * @param getValue - Returns the normalized value for a property suffix (e.g. "GridArea")
+ * @returns CSS declarations for the placement
+ */
+function buildItemPlacementRules(placementType: string, getValue: (prop: string) => string | undefined): string[] {
+    const rules: string[] = [];
+
+    if (placementType === "area") {
+        const areaValue = getValue("GridArea");
+        if (areaValue) {
+            rules.push(`grid-area: ${areaValue};`);
         }
-        if (justifyContent) {
-            const contentMapping: Record<string, string> = {
-                spaceBetween: "space-between",
-                spaceAround: "space-around",
-                spaceEvenly: "space-evenly"
-            };
-            rules.push(`justify-content: ${contentMapping[justifyContent] || justifyContent};`);
+    } else if (placementType === "coordinates") {
+        const colStart = getValue("ColumnStart");
+        const colEnd = getValue("ColumnEnd");
+        const rowStart = getValue("RowStart");
+        const rowEnd = getValue("RowEnd");
+
+        // Clear area placement
+        rules.push(`grid-area: auto;`);
+        if (colStart && colStart !== "auto") {
+            rules.push(`grid-column-start: ${colStart};`);
         }
-        if (alignContent) {
-            const contentMapping: Record<string, string> = {
-                spaceBetween: "space-between",
-                spaceAround: "space-around",
-                spaceEvenly: "space-evenly"
-            };
-            rules.push(`align-content: ${contentMapping[alignContent] || alignContent};`);
+        if (colEnd && colEnd !== "auto") {
+            rules.push(`grid-column-end: ${colEnd};`);
         }
-        if (minHeight) {
-            rules.push(`min-height: ${minHeight};`);
+        if (rowStart && rowStart !== "auto") {
+            rules.push(`grid-row-start: ${rowStart};`);
         }
-        if (maxHeight) {
-            rules.push(`max-height: ${maxHeight};`);
+        if (rowEnd && rowEnd !== "auto") {
+            rules.push(`grid-row-end: ${rowEnd};`);
         }
-        if (minWidth) {
-            rules.push(`min-width: ${minWidth};`);
+    } else if (placementType === "span") {
+        const colStart = getValue("ColumnStart");
+        const rowStart = getValue("RowStart");
+
+        // Clear area placement
+        rules.push(`grid-area: auto;`);
+        if (colStart && colStart !== "auto") {
+            if (colStart.includes("span")) {
+                rules.push(`grid-column: ${colStart};`);
+            } else {
+                rules.push(`grid-column-start: ${colStart};`);
+            }
         }
-        if (maxWidth) {
-            rules.push(`max-width: ${maxWidth};`);
-            rules.push(`margin-left: auto;`);
-            rules.push(`margin-right: auto;`);
+        if (rowStart && rowStart !== "auto") {
+            if (rowStart.includes("span")) {
+                rules.push(`grid-row: ${rowStart};`);
+            } else {
+                rules.push(`grid-row-start: ${rowStart};`);
+            }
         }
+    } else if (placementType === "auto") {
+        // Reset to auto placement
+        rules.push(`grid-area: auto;`);
+    }
 
-        if (rules.length > 0) {
-            // Get breakpoint configuration
-            const bpConfig = BREAKPOINT_CONFIGS.find(bp => bp.size === config.size);
-            if (!bpConfig) {
-                return;
-            }
+    return rules;
+}
 
-            // For XS breakpoint, apply styles directly without media query
-            // This ensures XS styles are the base and get overridden by larger breakpoints
-            if (config.size === "xs") {
-                cssRules.push(`
-                    ${className} {
-                        ${rules.join("\n                        ")}
-                    }
-                `);
-            } else {
-                // For other breakpoints, use min-width media query
-                // This creates a proper cascade where larger breakpoints override smaller ones
-                const mediaQuery = `
-                    @media (min-width: ${bpConfig.minWidth}px) {
-                        ${className} {
-                            ${rules.join("\n                            ")}
-                        }
-                    }
-                `;
-                cssRules.push(mediaQuery);
-            }
+/**
+ * Build item alignment declarations
+ *
+ * @param justifySelf - Justify self value ("auto" is skipped)
+ * @param alignSelf - Align self value ("auto" is skipped)
+ * @param zIndex - Z-index value (empty is skipped)
+ * @returns CSS declarations for the values that are set
+ */
+function buildItemAlignmentRules(
+    justifySelf: string | undefined,
+    alignSelf: string | undefined,
+    zIndex: string | number | null | undefined,
+    order: string | undefined
+): string[] {
+    const rules: string[] = [];
+
+    if (justifySelf && justifySelf !== "auto") {
+        rules.push(`justify-self: ${justifySelf};`);
+    }
+    if (alignSelf && alignSelf !== "auto") {
+        rules.push(`align-self: ${alignSelf};`);
+    }
+    if (zIndex !== null && zIndex !== undefined && zIndex !== "") {
+        rules.push(`z-index: ${zIndex};`);
+    }
+    const orderValue = parseItemOrder(order);
+    if (orderValue !== null) {
+        rules.push(`order: ${orderValue};`);
+    }
+
+    return rules;
+}
+
+/**
+ * Get an item's size constraints that are set
+ *
+ * @param item - Grid item
+ * @param size - Breakpoint to read, or undefined for the base values
+ * @returns Value per entry of ITEM_SIZE_PROPERTIES, keyed by base property
+ */
+export function getItemSizeValues(item: Record<string, any>, size?: BreakpointSize): Record<string, string> {
+    const values: Record<string, string> = {};
+
+    ITEM_SIZE_PROPERTIES.forEach(({ suffix, property }) => {
+        const value = safeTrim(item[size ? `${size}${suffix}` : property] as string | undefined);
+        if (value) {
+            values[property] = value;
         }
     });
 
-    return cssRules.join("\n");
+    return values;
+}
+
+/**
+ * Build item size declarations
+ *
+ * @param item - Grid item
+ * @param size - Breakpoint to read, or undefined for the base values
+ * @returns CSS declarations for the constraints that are set
+ */
+function buildItemSizeRules(item: RuntimeGridItem, size?: BreakpointSize): string[] {
+    const values = getItemSizeValues(item, size);
+    return ITEM_SIZE_PROPERTIES.filter(({ property }) => values[property]).map(
+        ({ property, cssProperty }) => `${cssProperty}: ${values[property]};`
+    );
 }
 
 /**
  * Generate CSS for per-item responsive breakpoints
- * Uses mobile-first approach with normalization
+ * Emits the base placement followed by one media query per enabled breakpoint.
+ * Hidden breakpoints always use the breakpoint's own range, matching the stylesheet classes.
  *
  * @param items - Array of grid items with breakpoint configurations
  * @param widgetId - Unique widget identifier for CSS scoping
+ * @param configs - Breakpoint widths to generate media queries for
+ * @param mode - Exact ranges or mobile-first cascade
  * @returns CSS string with media queries for item breakpoints
  */
-export function generateItemBreakpointStyles(items: RuntimeGridItem[], widgetId: string): string {
+export function generateItemBreakpointStyles(
+    items: RuntimeGridItem[],
+    widgetId: string,
+    configs: BreakpointConfig[] = BREAKPOINT_CONFIGS,
+    mode: ResponsiveMode = "cascade"
+): string {
     const cssRules: string[] = [];
 
     items.forEach((item, index) => {
@@ -406,96 +733,56 @@ export function generateItemBreakpointStyles(items: RuntimeGridItem[], widgetId:
             return;
         }
 
-        const itemClassName = `.${widgetId}-item-${index}`;
+        const itemClassName = `.${widgetId} > .${widgetId}-item-${index}`;
+
+        // Base placement, alignment and size
+        const baseValues: Record<string, string | undefined> = {
+            GridArea: normalizeValue(item.gridArea),
+            ColumnStart: normalizeValue(item.columnStart),
+            ColumnEnd: normalizeValue(item.columnEnd),
+            RowStart: normalizeValue(item.rowStart),
+            RowEnd: normalizeValue(item.rowEnd)
+        };
+        const baseRules = [
+            ...buildItemPlacementRules(item.placementType, prop => baseValues[prop]),
+            ...buildItemAlignmentRules(item.justifySelf, item.alignSelf, item.zIndex, item.order),
+            ...buildItemSizeRules(item)
+        ];
+        if (baseRules.length > 0) {
+            cssRules.push(formatCSSRule(itemClassName, baseRules));
+        }
 
         // Process each enabled breakpoint using helper
         forEachEnabledItemBreakpoint(item, (config, getProperty, getNormalizedProperty) => {
-            const rules: string[] = [];
+            const bpConfig = configs.find(bp => bp.size === config.size);
+            if (!bpConfig) {
+                return;
+            }
 
-            // Get placement type for this breakpoint
             const placementType = (getProperty("PlacementType") as string) || "auto";
-
-            // Apply placement based on type with normalization
-            if (placementType === "area") {
-                const areaValue = getNormalizedProperty("GridArea");
-                if (areaValue) {
-                    rules.push(`grid-area: ${areaValue};`);
-                    // Clear coordinate-based placement
-                    rules.push(`grid-column: auto;`);
-                    rules.push(`grid-row: auto;`);
-                }
-            } else if (placementType === "coordinates") {
-                const colStart = getNormalizedProperty("ColumnStart");
-                const colEnd = getNormalizedProperty("ColumnEnd");
-                const rowStart = getNormalizedProperty("RowStart");
-                const rowEnd = getNormalizedProperty("RowEnd");
-
-                if (colStart && colStart !== "auto") {
-                    rules.push(`grid-column-start: ${colStart};`);
-                }
-                if (colEnd && colEnd !== "auto") {
-                    rules.push(`grid-column-end: ${colEnd};`);
-                }
-                if (rowStart && rowStart !== "auto") {
-                    rules.push(`grid-row-start: ${rowStart};`);
-                }
-                if (rowEnd && rowEnd !== "auto") {
-                    rules.push(`grid-row-end: ${rowEnd};`);
-                }
-                // Clear area placement
-                rules.push(`grid-area: auto;`);
-            } else if (placementType === "span") {
-                const colStart = getNormalizedProperty("ColumnStart");
-                const rowStart = getNormalizedProperty("RowStart");
-
-                if (colStart && colStart !== "auto") {
-                    if (colStart.includes("span")) {
-                        rules.push(`grid-column: ${colStart};`);
-                    } else {
-                        rules.push(`grid-column-start: ${colStart};`);
-                    }
-                }
-                if (rowStart && rowStart !== "auto") {
-                    if (rowStart.includes("span")) {
-                        rules.push(`grid-row: ${rowStart};`);
-                    } else {
-                        rules.push(`grid-row-start: ${rowStart};`);
-                    }
-                }
-                // Clear area placement
-                rules.push(`grid-area: auto;`);
-            } else if (placementType === "auto") {
-                // Reset to auto placement
-                rules.push(`grid-area: auto;`);
-                rules.push(`grid-column: auto;`);
-                rules.push(`grid-row: auto;`);
-            }
+            const rules = [
+                ...buildItemPlacementRules(placementType, getNormalizedProperty),
+                ...buildItemAlignmentRules(
+                    getProperty("JustifySelf") as string | undefined,
+                    getProperty("AlignSelf") as string | undefined,
+                    getProperty("ZIndex") as number | null | undefined,
+                    getProperty("Order") as string | undefined
+                ),
+                ...buildItemSizeRules(item, config.size)
+            ];
 
             if (rules.length > 0) {
-                // Get breakpoint configuration for media query
-                const bpConfig = BREAKPOINT_CONFIGS.find(bp => bp.size === config.size);
-                if (!bpConfig) {
-                    return;
-                }
+                cssRules.push(formatCSSRule(itemClassName, rules, getBreakpointMediaQuery(bpConfig, mode === "exact")));
+            }
+        });
 
-                // For XS breakpoint, apply styles directly without media query
-                if (config.size === "xs") {
-                    cssRules.push(`
-                        ${itemClassName} {
-                            ${rules.join("\n                            ")}
-                        }
-                    `);
-                } else {
-                    // For other breakpoints, use min-width media query
-                    const mediaQuery = `
-                        @media (min-width: ${bpConfig.minWidth}px) {
-                            ${itemClassName} {
-                                ${rules.join("\n                                ")}
-                            }
-                        }
-                    `;
-                    cssRules.push(mediaQuery);
-                }
+        // Hidden breakpoints apply regardless of whether the breakpoint's placement is enabled
+        forEachBreakpoint(item, (config, getProperty) => {
+            const bpConfig = configs.find(bp => bp.size === config.size);
+            if (bpConfig && getProperty("Hidden")) {
+                cssRules.push(
+                    formatCSSRule(itemClassName, ["display: none;"], getBreakpointMediaQuery(bpConfig, true))
+                );
             }
         });
     });
@@ -503,6 +790,51 @@ export function generateItemBreakpointStyles(items: RuntimeGridItem[], widgetId:
     return cssRules.join("\n");
 }
 
+/**
+ * Parse an item order value
+ *
+ * @param value - Order property value
+ * @returns Whole number, or null when the value is empty or not a number
+ */
+export function parseItemOrder(value: string | undefined): number | null {
+    const normalized = normalizeValue(value);
+    if (!normalized) {
+        return null;
+    }
+    const order = parseInt(normalized, 10);
+    return isNaN(order) ? null : order;
+}
+
+/**
+ * Get the order of an item at the active width
+ * A breakpoint's order applies when the item's layout for that breakpoint is enabled.
+ * In cascade mode a larger breakpoint's order overrides a smaller one's, like the CSS.
+ *
+ * @param item - Grid item
+ * @param breakpoints - Breakpoints in effect, from getBreakpointsToProcess (empty without breakpoints)
+ * @returns Effective order, 0 when none is set
+ */
+export function getItemOrder<T extends { enableResponsive?: boolean; order?: string }>(
+    item: T,
+    breakpoints: BreakpointConfig[]
+): number {
+    let order = parseItemOrder(item.order) ?? 0;
+    if (!item.enableResponsive) {
+        return order;
+    }
+
+    const values = item as unknown as Record<string, unknown>;
+    breakpoints.forEach(config => {
+        if (values[`${config.size}Enabled`]) {
+            const breakpointOrder = parseItemOrder(values[`${config.size}Order`] as string | undefined);
+            if (breakpointOrder !== null) {
+                order = breakpointOrder;
+            }
+        }
+    });
+    return order;
+}
+
 /**
  * Merge grid placement properties into CSS grid properties
  * Fixed to properly handle mixed placement types when using named areas
@@ -614,7 +946,7 @@ export function getUniqueAreaNames(areas: string[][] | null): string[] {
  * @returns true if valid, false otherwise
  */
 export function isValidAreaName(name: string): boolean {
-    if (!name || name === ".") {
+    if (!name || isNullAreaCell(name)) {
         return true; // Empty cells are valid
     }
 
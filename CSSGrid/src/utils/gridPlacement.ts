@@ -0,0 +1,607 @@
+/**
+ * CSS Grid Auto-Placement Engine
+ *
+ * Self-contained implementation of the CSS Grid item placement algorithm
+ * (explicit placement, spans, named areas, row/column and dense flow).
+ * It produces a cell → item map that keyboard navigation and ARIA row/column
+ * metadata rely on, instead of guessing from item order.
+ *
+ * Line names are resolved from the templates and named areas. Auto-fill/auto-fit
+ * repetitions cannot be resolved without the browser and count as a single repetition,
+ * so callers pass the measured column count for such templates (see hasAutoRepeatTracks).
+ *
+ * IMPORTANT: Like gridHelpers, this module avoids regex so it can also run in
+ * Mendix Studio Pro's Jint interpreter.
+ */
+
+import { GridItemPlacement } from "../types/ConditionalTypes";
+import {
+    GridDirection,
+    GridEdge,
+    GridLineReference,
+    GridPlacementResult,
+    PlacedGridItem,
+    PlacementEngineInput,
+    PlacementEngineItem
+} from "../types/PlacementTypes";
+import { parseGridAreas, parseGridLine, parseGridLineNames, parseGridTemplate } from "./gridHelpers";
+import { safeTrim } from "./stringHelpers";
+
+/**
+ * Placement of an item along one axis
+ * start is a 1-based line, or null for auto placement
+ */
+interface AxisPlacement {
+    start: number | null;
+    span: number;
+}
+
+/**
+ * Item with both axes resolved, before auto-placement
+ */
+interface ResolvedItem {
+    index: number;
+    column: AxisPlacement;
+    row: AxisPlacement;
+}
+
+/**
+ * Rectangle covered by a named area (1-based start lines, spans in tracks)
+ */
+interface AreaRect {
+    columnStart: number;
+    columnSpan: number;
+    rowStart: number;
+    rowSpan: number;
+}
+
+/**
+ * Line numbers of the named lines on one axis, in ascending order
+ */
+type LineNameMap = Record<string, number[]>;
+
+/**
+ * Count the explicit tracks of a grid template
+ * Line names ([name]) are not tracks, "none" defines no explicit tracks
+ *
+ * @param template - Grid template value
+ * @returns Number of explicit tracks
+ */
+export function countGridTracks(template: string | undefined): number {
+    const trimmed = safeTrim(template);
+    if (!trimmed || trimmed === "none") {
+        return 0;
+    }
+    return parseGridTemplate(trimmed).length;
+}
+
+/**
+ * Check whether a template repeats its tracks to fill the container
+ * The number of tracks of such templates is only known after layout
+ *
+ * @param template - Grid template value
+ * @returns True for repeat(auto-fill, ...) and repeat(auto-fit, ...)
+ */
+export function hasAutoRepeatTracks(template: string | undefined): boolean {
+    const trimmed = safeTrim(template);
+    return trimmed.indexOf("auto-fill") !== -1 || trimmed.indexOf("auto-fit") !== -1;
+}
+
+/**
+ * Resolve a line (not a span) into a positive 1-based line
+ * Negative lines count back from the end of the explicit grid. Like the browser,
+ * missing line names are assumed to be the implicit lines after the explicit grid.
+ *
+ * @param reference - Parsed line value
+ * @param side - Whether the value is a start or an end line
+ * @param explicitTracks - Number of explicit tracks on this axis
+ * @param lines - Named lines on this axis
+ * @returns Line number
+ */
+function resolveLine(
+    reference: GridLineReference,
+    side: "start" | "end",
+    explicitTracks: number,
+    lines: LineNameMap
+): number {
+    const count = reference.count !== null ? reference.count : 1;
+
+    if (reference.name === null) {
+        return count < 0 ? Math.max(1, explicitTracks + 2 + count) : count;
+    }
+
+    // A bare area name refers to the area's start or end line
+    const implicitName = `${reference.name}-${side}`;
+    const name = reference.count === null && lines[implicitName] ? implicitName : reference.name;
+    const matches = lines[name] || [];
+
+    if (count > 0) {
+        return count <= matches.length ? matches[count - 1] : explicitTracks + 1 + count - matches.length;
+    }
+    return -count <= matches.length ? matches[matches.length + count] : 1;
+}
+
+/**
+ * Resolve a span from a definite line towards the other side
+ * "span name" spans to the next line with that name
+ *
+ * @param reference - Parsed span value
+ * @param from - Definite line on the other side
+ * @param direction - 1 to span towards the end, -1 to span towards the start
+ * @param explicitTracks - Number of explicit tracks on this axis
+ * @param lines - Named lines on this axis
+ * @returns Number of tracks spanned
+ */
+function resolveSpan(
+    reference: GridLineReference,
+    from: number,
+    direction: 1 | -1,
+    explicitTracks: number,
+    lines: LineNameMap
+): number {
+    const count = reference.count !== null ? reference.count : 1;
+    if (reference.name === null) {
+        return count;
+    }
+
+    const matches = (lines[reference.name] || []).filter(line => (direction > 0 ? line > from : line < from));
+    if (direction < 0) {
+        matches.reverse();
+    }
+    if (count <= matches.length) {
+        return Math.abs(matches[count - 1] - from);
+    }
+    if (direction > 0) {
+        return Math.max(from, explicitTracks + 1) + count - matches.length - from;
+    }
+    return Math.max(1, from - 1);
+}
+
+/**
+ * Resolve start/end values of one axis following the grid placement rules
+ *
+ * @param startValue - Start value (line, line name, span or auto)
+ * @param endValue - End value (line, line name, span or auto)
+ * @param explicitTracks - Number of explicit tracks on this axis
+ * @param lines - Named lines on this axis
+ * @returns Axis placement
+ */
+function resolveAxis(
+    startValue: string | undefined,
+    endValue: string | undefined,
+    explicitTracks: number,
+    lines: LineNameMap
+): AxisPlacement {
+    const start = parseGridLine(startValue);
+    const end = parseGridLine(endValue);
+    const startLine = start && !start.span ? resolveLine(start, "start", explicitTracks, lines) : null;
+    const endLine = end && !end.span ? resolveLine(end, "end", explicitTracks, lines) : null;
+
+    if (startLine !== null && endLine !== null) {
+        if (startLine === endLine) {
+            return { start: startLine, span: 1 };
+        }
+        const first = Math.min(startLine, endLine);
+        return { start: first, span: Math.abs(endLine - startLine) };
+    }
+    if (startLine !== null) {
+        return { start: startLine, span: end && end.span ? resolveSpan(end, startLine, 1, explicitTracks, lines) : 1 };
+    }
+    if (endLine !== null) {
+        const span = start && start.span ? resolveSpan(start, endLine, -1, explicitTracks, lines) : 1;
+        return { start: Math.max(1, endLine - span), span };
+    }
+
+    // Auto-placed items span one track for "span name"
+    const autoSpan = start && start.span ? start : end && end.span ? end : null;
+    return { start: null, span: autoSpan && autoSpan.name === null && autoSpan.count !== null ? autoSpan.count : 1 };
+}
+
+/**
+ * Build the rectangle of every named area
+ *
+ * @param areas - Grid template areas value
+ * @returns Area rectangles by name
+ */
+function getAreaRects(areas: string | undefined): Record<string, AreaRect> {
+    const parsed = areas ? parseGridAreas(areas) : null;
+    const rects: Record<string, AreaRect> = {};
+    if (!parsed) {
+        return rects;
+    }
+
+    parsed.forEach((row, rowIndex) => {
+        row.forEach((name, columnIndex) => {
+            if (name === ".") {
+                return;
+            }
+            const rect = rects[name];
+            if (!rect) {
+                rects[name] = { columnStart: columnIndex + 1, columnSpan: 1, rowStart: rowIndex + 1, rowSpan: 1 };
+                return;
+            }
+            const columnEnd = Math.max(rect.columnStart + rect.columnSpan, columnIndex + 2);
+            const rowEnd = Math.max(rect.rowStart + rect.rowSpan, rowIndex + 2);
+            rect.columnStart = Math.min(rect.columnStart, columnIndex + 1);
+            rect.rowStart = Math.min(rect.rowStart, rowIndex + 1);
+            rect.columnSpan = columnEnd - rect.columnStart;
+            rect.rowSpan = rowEnd - rect.rowStart;
+        });
+    });
+
+    return rects;
+}
+
+/**
+ * Collect the named lines of one axis from its template and the named areas
+ *
+ * @param template - Grid template of the axis
+ * @param areaRects - Named area rectangles
+ * @param axis - Axis to collect
+ * @returns Line numbers by name
+ */
+function getLineNameMap(template: string, areaRects: Record<string, AreaRect>, axis: "column" | "row"): LineNameMap {
+    const lines: LineNameMap = {};
+    const addLine = (name: string, line: number): void => {
+        lines[name] = lines[name] || [];
+        if (lines[name].indexOf(line) === -1) {
+            lines[name].push(line);
+        }
+    };
+
+    parseGridLineNames(template).forEach((names, index) => names.forEach(name => addLine(name, index + 1)));
+    Object.keys(areaRects).forEach(area => {
+        const rect = areaRects[area];
+        const start = axis === "column" ? rect.columnStart : rect.rowStart;
+        const span = axis === "column" ? rect.columnSpan : rect.rowSpan;
+        addLine(`${area}-start`, start);
+        addLine(`${area}-end`, start + span);
+    });
+
+    Object.keys(lines).forEach(name => lines[name].sort((a, b) => a - b));
+    return lines;
+}
+
+/**
+ * Resolve an item's placement into axis placements
+ */
+function resolveItem(
+    item: PlacementEngineItem,
+    areaRects: Record<string, AreaRect>,
+    explicitColumns: number,
+    explicitRows: number,
+    columnLines: LineNameMap,
+    rowLines: LineNameMap
+): ResolvedItem {
+    const placement: GridItemPlacement = item.placement;
+    const auto: AxisPlacement = { start: null, span: 1 };
+
+    switch (placement.placementType) {
+        case "area": {
+            const rect = areaRects[safeTrim(placement.gridArea)];
+            if (!rect) {
+                return { index: item.index, column: auto, row: auto };
+            }
+            return {
+                index: item.index,
+                column: { start: rect.columnStart, span: rect.columnSpan },
+                row: { start: rect.rowStart, span: rect.rowSpan }
+            };
+        }
+        case "coordinates":
+        case "span":
+            return {
+                index: item.index,
+                column: resolveAxis(placement.columnStart, placement.columnEnd, explicitColumns, columnLines),
+                row: resolveAxis(placement.rowStart, placement.rowEnd, explicitRows, rowLines)
+            };
+        default:
+            return { index: item.index, column: auto, row: auto };
+    }
+}
+
+/**
+ * Run the row-flow placement algorithm
+ * Column flow is handled by the caller by swapping the axes
+ *
+ * @returns Placed items and the number of columns in the implicit grid
+ */
+function placeRowFlow(
+    items: ResolvedItem[],
+    explicitColumns: number,
+    dense: boolean
+): { placed: PlacedGridItem[]; columnCount: number } {
+    const occupied = new Set<string>();
+    const placed: PlacedGridItem[] = [];
+
+    const fits = (row: number, column: number, rowSpan: number, columnSpan: number): boolean => {
+        for (let r = row; r < row + rowSpan; r++) {
+            for (let c = column; c < column + columnSpan; c++) {
+                if (occupied.has(`${r},${c}`)) {
+                    return false;
+                }
+            }
+        }
+        return true;
+    };
+
+    const place = (item: ResolvedItem, row: number, column: number): void => {
+        for (let r = row; r < row + item.row.span; r++) {
+            for (let c = column; c < column + item.column.span; c++) {
+                occupied.add(`${r},${c}`);
+            }
+        }
+        placed.push({
+            index: item.index,
+            columnStart: column,
+            columnSpan: item.column.span,
+            rowStart: row,
+            rowSpan: item.row.span
+        });
+    };
+
+    // Implicit columns: explicit tracks, definite column positions and the widest auto span
+    let columnCount = Math.max(1, explicitColumns);
+    items.forEach(item => {
+        const columnEnd = item.column.start !== null ? item.column.start + item.column.span - 1 : item.column.span;
+        columnCount = Math.max(columnCount, columnEnd);
+    });
+
+    // 1. Items with a definite position in both axes
+    items
+        .filter(item => item.row.start !== null && item.column.start !== null)
+        .forEach(item => place(item, item.row.start!, item.column.start!));
+
+    // 2. Items locked to a row
+    const rowCursors: Record<number, number> = {};
+    items
+        .filter(item => item.row.start !== null && item.column.start === null)
+        .forEach(item => {
+            const row = item.row.start!;
+            let column = dense ? 1 : rowCursors[row] || 1;
+            while (!fits(row, column, item.row.span, item.column.span)) {
+                column++;
+            }
+            columnCount = Math.max(columnCount, column + item.column.span - 1);
+            place(item, row, column);
+            rowCursors[row] = column + item.column.span;
+        });
+
+    // 3. Remaining items, following the auto-placement cursor
+    const cursor = { row: 1, column: 1 };
+    items
+        .filter(item => item.row.start === null)
+        .forEach(item => {
+            if (dense) {
+                cursor.row = 1;
+                cursor.column = 1;
+            }
+
+            if (item.column.start !== null) {
+                // Definite column: move the cursor to it, wrapping to the next row when it is behind
+                if (!dense && item.column.start < cursor.column) {
+                    cursor.row++;
+                }
+                cursor.column = item.column.start;
+                while (!fits(cursor.row, cursor.column, item.row.span, item.column.span)) {
+                    cursor.row++;
+                }
+                place(item, cursor.row, cursor.column);
+                return;
+            }
+
+            // Fully auto: scan columns, then rows
+            for (;;) {
+                while (cursor.column + item.column.span - 1 <= columnCount) {
+                    if (fits(cursor.row, cursor.column, item.row.span, item.column.span)) {
+                        place(item, cursor.row, cursor.column);
+                        return;
+                    }
+                    cursor.column++;
+                }
+                cursor.row++;
+                cursor.column = 1;
+            }
+        });
+
+    return { placed, columnCount };
+}
+
+/**
+ * Compute where every item ends up in the grid
+ *
+ * @param input - Active grid template, auto-flow and item placements
+ * @returns Column/row counts, placed items and the cell → item map
+ */
+export function computeGridPlacement(input: PlacementEngineInput): GridPlacementResult {
+    const areaRects = getAreaRects(input.areas);
+    const parsedAreas = input.areas ? parseGridAreas(input.areas) : null;
+    const areaRows = parsedAreas ? parsedAreas.length : 0;
+    const areaColumns = parsedAreas ? Math.max(0, ...parsedAreas.map(row => row.length)) : 0;
+
+    const explicitColumns = Math.max(countGridTracks(input.columns), areaColumns);
+    const explicitRows = Math.max(countGridTracks(input.rows), areaRows);
+
+    const flow = input.autoFlow || "row";
+    const isColumnFlow = flow === "column" || flow === "columnDense";
+    const dense = flow === "dense" || flow === "columnDense";
+
+    const columnLines = getLineNameMap(input.columns, areaRects, "column");
+    const rowLines = getLineNameMap(input.rows, areaRects, "row");
+    const resolved = input.items.map(item =>
+        resolveItem(item, areaRects, explicitColumns, explicitRows, columnLines, rowLines)
+    );
+
+    // Column flow is row flow with the axes swapped
+    const { placed } = isColumnFlow
+        ? placeRowFlow(
+              resolved.map(item => ({ index: item.index, column: item.row, row: item.column })),
+              explicitRows,
+              dense
+          )
+        : placeRowFlow(resolved, explicitColumns, dense);
+
+    const items: PlacedGridItem[] = isColumnFlow
+        ? placed.map(item => ({
+              index: item.index,
+              columnStart: item.rowStart,
+              columnSpan: item.rowSpan,
+              rowStart: item.columnStart,
+              rowSpan: item.columnSpan
+          }))
+        : placed;
+
+    let columnCount = Math.max(1, explicitColumns);
+    let rowCount = Math.max(1, explicitRows);
+    items.forEach(item => {
+        columnCount = Math.max(columnCount, item.columnStart + item.columnSpan - 1);
+        rowCount = Math.max(rowCount, item.rowStart + item.rowSpan - 1);
+    });
+
+    // Cell map - the first item wins where explicitly placed items overlap
+    const cells: Array<Array<number | null>> = [];
+    for (let r = 0; r < rowCount; r++) {
+        const row: Array<number | null> = [];
+        for (let c = 0; c < columnCount; c++) {
+            row.push(null);
+        }
+        cells.push(row);
+    }
+    items.forEach(item => {
+        for (let r = item.rowStart - 1; r < item.rowStart - 1 + item.rowSpan; r++) {
+            for (let c = item.columnStart - 1; c < item.columnStart - 1 + item.columnSpan; c++) {
+                if (cells[r][c] === null) {
+                    cells[r][c] = item.index;
+                }
+            }
+        }
+    });
+
+    // Keep items in their original order for lookups
+    items.sort((a, b) => a.index - b.index);
+
+    return { columnCount, rowCount, items, cells };
+}
+
+/**
+ * Find the placed position of an item
+ *
+ * @param result - Placement result
+ * @param index - Item index
+ * @returns Placed item, or undefined when the item was not placed
+ */
+export function getPlacedItem(result: GridPlacementResult, index: number): PlacedGridItem | undefined {
+    return result.items.find(item => item.index === index);
+}
+
+/**
+ * Find the nearest item in a direction from an item
+ * Looks along the item's first row (left/right) or first column (up/down)
+ *
+ * @param result - Placement result
+ * @param index - Index of the current item
+ * @param direction - Arrow key direction
+ * @returns Index of the adjacent item, or null at the edge of the grid
+ */
+export function findAdjacentItem(result: GridPlacementResult, index: number, direction: GridDirection): number | null {
+    const current = getPlacedItem(result, index);
+    if (!current) {
+        return null;
+    }
+
+    const row = current.rowStart - 1;
+    const column = current.columnStart - 1;
+
+    switch (direction) {
+        case "left":
+            for (let c = column - 1; c >= 0; c--) {
+                const cell = result.cells[row][c];
+                if (cell !== null && cell !== index) {
+                    return cell;
+                }
+            }
+            return null;
+        case "right":
+            for (let c = column + current.columnSpan; c < result.columnCount; c++) {
+                const cell = result.cells[row][c];
+                if (cell !== null && cell !== index) {
+                    return cell;
+                }
+            }
+            return null;
+        case "up":
+            for (let r = row - 1; r >= 0; r--) {
+                const cell = result.cells[r][column];
+                if (cell !== null && cell !== index) {
+                    return cell;
+                }
+            }
+            return null;
+        case "down":
+            for (let r = row + current.rowSpan; r < result.rowCount; r++) {
+                const cell = result.cells[r][column];
+                if (cell !== null && cell !== index) {
+                    return cell;
+                }
+            }
+            return null;
+    }
+}
+
+/**
+ * Find the first or last item in the row of an item (Home/End)
+ *
+ * @param result - Placement result
+ * @param index - Index of the current item
+ * @param edge - Start or end of the row
+ * @returns Index of the edge item, or null when the item is not placed
+ */
+export function findRowEdgeItem(result: GridPlacementResult, index: number, edge: GridEdge): number | null {
+    const current = getPlacedItem(result, index);
+    if (!current) {
+        return null;
+    }
+
+    const cells = result.cells[current.rowStart - 1];
+    const ordered = edge === "start" ? cells : [...cells].reverse();
+    const found = ordered.find(cell => cell !== null);
+    return found === undefined ? null : found;
+}
+
+/**
+ * Find the first or last item of the grid (Ctrl+Home/Ctrl+End)
+ *
+ * @param result - Placement result
+ * @param edge - Start or end of the grid
+ * @returns Index of the edge item, or null when the grid is empty
+ */
+export function findGridEdgeItem(result: GridPlacementResult, edge: GridEdge): number | null {
+    const cells = result.cells.reduce<Array<number | null>>((all, row) => all.concat(row), []);
+    const ordered = edge === "start" ? cells : cells.reverse();
+    const found = ordered.find(cell => cell !== null);
+    return found === undefined ? null : found;
+}
+
+/**
+ * Find the item a number of rows above or below an item (PageUp/PageDown)
+ * Stops early at the first or last item in the column
+ *
+ * @param result - Placement result
+ * @param index - Index of the current item
+ * @param rowOffset - Rows to move, negative to move up
+ * @returns Index of the target item, or null when there is nothing to move to
+ */
+export function findItemRowsAway(result: GridPlacementResult, index: number, rowOffset: number): number | null {
+    const direction: GridDirection = rowOffset < 0 ? "up" : "down";
+    let target = index;
+
+    for (let step = 0; step < Math.abs(rowOffset); step++) {
+        const next = findAdjacentItem(result, target, direction);
+        if (next === null) {
+            break;
+        }
+        target = next;
+    }
+
+    return target === index ? null : target;
+}
@@ -0,0 +1,348 @@
+/**
+ * Layout Helper Functions
+ *
+ * Reading, writing and editing the user-arranged layout of an editable grid.
+ * The layout is stored as JSON in a String attribute, keyed by breakpoint and
+ * item, and overrides the configured placement of the items it contains.
+ */
+
+import { RuntimeGridItem, GridItemPlacement } from "../types/ConditionalTypes";
+import { BreakpointSize } from "../types/BreakpointTypes";
+import { GridCell, GridLayout, GridTracks, LayoutPlacement, SpanLimits, StoredLayouts } from "../types/LayoutTypes";
+import { safeTrim } from "./stringHelpers";
+
+/**
+ * Get the key under which an item is stored in the layout JSON
+ * Datasource items use their object id, static items their name or position
+ *
+ * @param item - Runtime grid item
+ * @param index - Position of the item in the grid
+ * @returns Stable layout key for the item
+ */
+export function getLayoutItemKey(item: RuntimeGridItem, index: number): string {
+    if (item.objectId) {
+        return item.objectId;
+    }
+    const itemName = safeTrim(item.itemName);
+    return itemName || `item-${index + 1}`;
+}
+
+/**
+ * Get the key under which the layout of the active breakpoint is stored
+ * Grids without breakpoints keep a single layout under "base"
+ *
+ * @param enableBreakpoints - Whether the container uses breakpoints
+ * @param breakpoint - Active breakpoint size
+ * @returns Layout key for the breakpoint
+ */
+export function getLayoutBreakpointKey(enableBreakpoints: boolean, breakpoint: BreakpointSize): string {
+    return enableBreakpoints ? breakpoint : "base";
+}
+
+/**
+ * Check that a value is a JSON object (not an array or null)
+ */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check that a value is a positive whole number
+ */
+function isPositiveInteger(value: unknown): value is number {
+    return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Parse the stored layout JSON
+ * Invalid entries are skipped with a warning so one bad item does not reset the whole layout
+ *
+ * @param value - JSON string from the layout attribute
+ * @returns Parsed layouts by breakpoint, empty when the value is empty or invalid
+ */
+export function parseLayout(value: string | undefined): StoredLayouts {
+    const trimmed = safeTrim(value);
+    if (!trimmed) {
+        return {};
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch (error) {
+        console.warn("CSSGrid: Ignoring stored layout - value is not valid JSON");
+        return {};
+    }
+
+    if (!isJsonObject(parsed)) {
+        console.warn("CSSGrid: Ignoring stored layout - value must be a JSON object");
+        return {};
+    }
+
+    const layouts: StoredLayouts = {};
+    Object.entries(parsed).forEach(([breakpoint, breakpointLayout]) => {
+        if (!isJsonObject(breakpointLayout)) {
+            console.warn(`CSSGrid: Ignoring stored layout for breakpoint "${breakpoint}" - expected a JSON object`);
+            return;
+        }
+
+        const layout: GridLayout = {};
+        Object.entries(breakpointLayout).forEach(([key, entry]) => {
+            const placement = entry as Partial<LayoutPlacement> | null;
+            if (
+                placement &&
+                isPositiveInteger(placement.columnStart) &&
+                isPositiveInteger(placement.columnSpan) &&
+                isPositiveInteger(placement.rowStart) &&
+                isPositiveInteger(placement.rowSpan)
+            ) {
+                layout[key] = {
+                    columnStart: placement.columnStart,
+                    columnSpan: placement.columnSpan,
+                    rowStart: placement.rowStart,
+                    rowSpan: placement.rowSpan
+                };
+            } else {
+                console.warn(
+                    `CSSGrid: Ignoring stored layout for "${key}" at breakpoint "${breakpoint}" - expected positive whole numbers`
+                );
+            }
+        });
+        layouts[breakpoint] = layout;
+    });
+
+    return layouts;
+}
+
+/**
+ * Serialize the layouts for the layout attribute
+ *
+ * @param layouts - Layouts by breakpoint
+ * @returns JSON string
+ */
+export function serializeLayout(layouts: StoredLayouts): string {
+    return JSON.stringify(layouts);
+}
+
+/**
+ * Convert a layout entry into a coordinate placement
+ *
+ * @param placement - Layout entry for an item
+ * @returns Grid item placement usable with getGridItemPlacement
+ */
+export function getLayoutGridPlacement(placement: LayoutPlacement): GridItemPlacement {
+    return {
+        placementType: "coordinates",
+        columnStart: String(placement.columnStart),
+        columnEnd: `span ${placement.columnSpan}`,
+        rowStart: String(placement.rowStart),
+        rowEnd: `span ${placement.rowSpan}`
+    };
+}
+
+/**
+ * Move a layout entry to a new start cell
+ * Keeps the item inside the explicit columns and below the first row
+ *
+ * @param placement - Current placement of the item
+ * @param cell - Requested start cell
+ * @param columnCount - Number of columns in the grid
+ * @returns New placement with the same spans
+ */
+export function moveLayoutPlacement(placement: LayoutPlacement, cell: GridCell, columnCount: number): LayoutPlacement {
+    const columnSpan = Math.min(placement.columnSpan, Math.max(1, columnCount));
+    const maxColumnStart = Math.max(1, columnCount - columnSpan + 1);
+
+    return {
+        columnStart: Math.min(Math.max(1, cell.column), maxColumnStart),
+        columnSpan,
+        rowStart: Math.max(1, cell.row),
+        rowSpan: placement.rowSpan
+    };
+}
+
+/**
+ * Check whether two placements cover a common cell
+ */
+function isOverlapping(a: LayoutPlacement, b: LayoutPlacement): boolean {
+    return (
+        a.columnStart < b.columnStart + b.columnSpan &&
+        b.columnStart < a.columnStart + a.columnSpan &&
+        a.rowStart < b.rowStart + b.rowSpan &&
+        b.rowStart < a.rowStart + a.rowSpan
+    );
+}
+
+/**
+ * Shift a placement down until it no longer overlaps other stored items
+ * A drop onto occupied cells lands in the first free rows below them, in the same columns.
+ * Auto-placed items flow around stored ones, so only stored placements can collide.
+ *
+ * @param placement - Requested placement
+ * @param occupied - Stored placements of the other items
+ * @returns Placement that covers only free cells
+ */
+export function shiftLayoutPlacement(placement: LayoutPlacement, occupied: LayoutPlacement[]): LayoutPlacement {
+    const findCollision = (candidate: LayoutPlacement): LayoutPlacement | undefined =>
+        occupied.find(other => isOverlapping(candidate, other));
+
+    let next = placement;
+    let collision = findCollision(next);
+    while (collision) {
+        next = { ...next, rowStart: collision.rowStart + collision.rowSpan };
+        collision = findCollision(next);
+    }
+    return next;
+}
+
+/**
+ * Get the resize limits configured for an item
+ * Missing or invalid values fall back to a minimum of 1 and no maximum
+ *
+ * @param item - Runtime grid item
+ * @returns Span limits for the item
+ */
+export function getSpanLimits(item: RuntimeGridItem): SpanLimits {
+    const toLimit = (value: number | null | undefined, fallback: number): number =>
+        typeof value === "number" && value >= 0 ? Math.floor(value) : fallback;
+
+    return {
+        minColumnSpan: Math.max(1, toLimit(item.minColumnSpan, 1)),
+        maxColumnSpan: toLimit(item.maxColumnSpan, 0),
+        minRowSpan: Math.max(1, toLimit(item.minRowSpan, 1)),
+        maxRowSpan: toLimit(item.maxRowSpan, 0)
+    };
+}
+
+/**
+ * Clamp a span between its limits
+ * The maximum wins when limits conflict, so items never exceed the grid
+ */
+function clampSpan(span: number, min: number, max: number): number {
+    const upper = max > 0 ? max : Infinity;
+    return Math.max(1, Math.min(Math.max(span, min), upper));
+}
+
+/**
+ * Resize a layout entry to new spans
+ * Spans are kept within the item's limits and the columns right of its start line
+ *
+ * @param placement - Current placement of the item
+ * @param columnSpan - Requested column span
+ * @param rowSpan - Requested row span
+ * @param limits - Span limits of the item
+ * @param columnCount - Number of columns in the grid
+ * @returns New placement with the same start cell
+ */
+export function resizeLayoutPlacement(
+    placement: LayoutPlacement,
+    columnSpan: number,
+    rowSpan: number,
+    limits: SpanLimits,
+    columnCount: number
+): LayoutPlacement {
+    const availableColumns = Math.max(1, columnCount - placement.columnStart + 1);
+    const maxColumnSpan =
+        limits.maxColumnSpan > 0 ? Math.min(limits.maxColumnSpan, availableColumns) : availableColumns;
+
+    return {
+        ...placement,
+        columnSpan: clampSpan(columnSpan, limits.minColumnSpan, maxColumnSpan),
+        rowSpan: clampSpan(rowSpan, limits.minRowSpan, limits.maxRowSpan)
+    };
+}
+
+/**
+ * Parse a resolved track list ("120px 240px") into start offsets
+ */
+function getTrackOffsets(trackList: string, gap: string, start: number): number[] {
+    const gapSize = parseFloat(gap) || 0;
+    const offsets: number[] = [];
+    let position = start;
+
+    trackList
+        .split(" ")
+        .map(track => parseFloat(track))
+        .filter(size => !isNaN(size))
+        .forEach(size => {
+            offsets.push(position);
+            position += size + gapSize;
+        });
+
+    return offsets;
+}
+
+/**
+ * Measure the resolved column and row tracks of a rendered grid
+ * Uses the computed style, which lists every track (including implicit ones) in pixels
+ *
+ * @param gridElement - Grid container element
+ * @returns Track start offsets relative to the element's border box
+ */
+export function getGridTracks(gridElement: HTMLElement): GridTracks {
+    const computed = window.getComputedStyle(gridElement);
+    const left = (parseFloat(computed.borderLeftWidth) || 0) + (parseFloat(computed.paddingLeft) || 0);
+    const top = (parseFloat(computed.borderTopWidth) || 0) + (parseFloat(computed.paddingTop) || 0);
+
+    return {
+        columns: getTrackOffsets(computed.gridTemplateColumns, computed.columnGap, left),
+        rows: getTrackOffsets(computed.gridTemplateRows, computed.rowGap, top)
+    };
+}
+
+/**
+ * Find the 1-based track that contains an offset
+ */
+function getTrackAtOffset(offsets: number[], offset: number): number {
+    let track = 1;
+    offsets.forEach((start, index) => {
+        if (offset >= start) {
+            track = index + 1;
+        }
+    });
+    return track;
+}
+
+/**
+ * Get the grid cell under a viewport point
+ *
+ * @param gridElement - Grid container element
+ * @param clientX - Viewport x coordinate
+ * @param clientY - Viewport y coordinate
+ * @returns Cell under the point
+ */
+export function getGridCellFromPoint(gridElement: HTMLElement, clientX: number, clientY: number): GridCell {
+    const rect = gridElement.getBoundingClientRect();
+    const tracks = getGridTracks(gridElement);
+
+    return {
+        column: getTrackAtOffset(tracks.columns, clientX - rect.left),
+        row: getTrackAtOffset(tracks.rows, clientY - rect.top)
+    };
+}
+
+/**
+ * Measure the current placement of a rendered item
+ * Used as the starting point when an item without a stored layout entry is moved
+ *
+ * @param gridElement - Grid container element
+ * @param itemElement - Grid item element
+ * @returns Placement covering the tracks the item occupies
+ */
+export function measureLayoutPlacement(gridElement: HTMLElement, itemElement: HTMLElement): LayoutPlacement {
+    const gridRect = gridElement.getBoundingClientRect();
+    const itemRect = itemElement.getBoundingClientRect();
+    const tracks = getGridTracks(gridElement);
+
+    const columnStart = getTrackAtOffset(tracks.columns, itemRect.left - gridRect.left + 1);
+    const columnEnd = getTrackAtOffset(tracks.columns, itemRect.right - gridRect.left - 1);
+    const rowStart = getTrackAtOffset(tracks.rows, itemRect.top - gridRect.top + 1);
+    const rowEnd = getTrackAtOffset(tracks.rows, itemRect.bottom - gridRect.top - 1);
+
+    return {
+        columnStart,
+        columnSpan: Math.max(1, columnEnd - columnStart + 1),
+        rowStart,
+        rowSpan: Math.max(1, rowEnd - rowStart + 1)
+    };
+}
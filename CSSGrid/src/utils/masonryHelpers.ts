@@ -0,0 +1,30 @@
+/**
+ * Masonry Helper Functions
+ *
+ * Masonry packs items of different heights into columns. Browsers with
+ * native support use `grid-template-rows: masonry`; elsewhere the grid uses
+ * small fixed rows and every item spans as many of them as its height needs.
+ */
+
+/**
+ * Check whether the browser supports native CSS masonry
+ *
+ * @returns True when `grid-template-rows: masonry` is supported
+ */
+export function supportsNativeMasonry(): boolean {
+    return typeof CSS !== "undefined" && CSS.supports("grid-template-rows", "masonry");
+}
+
+/**
+ * Get the number of base rows an item needs in the measured fallback
+ * Each extra row adds one row gap, so the gap is counted on both sides
+ *
+ * @param height - Measured item height in pixels
+ * @param rowSize - Height of a base row in pixels
+ * @param rowGap - Row gap of the grid in pixels
+ * @returns Row span, at least 1
+ */
+export function getMasonryRowSpan(height: number, rowSize: number, rowGap: number): number {
+    const trackSize = Math.max(1, rowSize) + Math.max(0, rowGap);
+    return Math.max(1, Math.ceil((height + Math.max(0, rowGap)) / trackSize));
+}
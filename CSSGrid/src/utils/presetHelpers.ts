@@ -0,0 +1,187 @@
+/**
+ * Layout Preset Helper Functions
+ *
+ * Built-in layouts for common page patterns. A preset fills in the templates,
+ * areas and gaps that are still empty, so anything set in Studio Pro overrides it.
+ * It never turns on named areas or breakpoints; check() warns when it needs them.
+ */
+
+import { LayoutPresetEnum } from "../../typings/CSSGridProps";
+import { BreakpointSize } from "../types/BreakpointTypes";
+import { LayoutPreset, PresetLayout } from "../types/PresetTypes";
+import { safeTrim } from "./stringHelpers";
+import { getGapTokenValue } from "./gapTokenHelpers";
+
+/**
+ * Base property for each breakpoint property suffix
+ */
+const BASE_PROPERTY_KEYS: Record<string, string> = {
+    Columns: "gridTemplateColumns",
+    Rows: "gridTemplateRows",
+    Areas: "gridTemplateAreas",
+    Gap: "gap",
+    RowGap: "rowGap",
+    ColumnGap: "columnGap"
+};
+
+const HOLY_GRAIL: PresetLayout = {
+    columns: "minmax(160px, 1fr) minmax(0, 4fr) minmax(160px, 1fr)",
+    rows: "auto 1fr auto",
+    areas: '"header header header"\n"nav main aside"\n"footer footer footer"',
+    gap: "m"
+};
+
+const HOLY_GRAIL_STACKED: PresetLayout = {
+    columns: "1fr",
+    rows: "auto",
+    areas: '"header"\n"nav"\n"main"\n"aside"\n"footer"',
+    gap: "s"
+};
+
+const SIDEBAR_CONTENT: PresetLayout = {
+    columns: "minmax(200px, 1fr) minmax(0, 3fr)",
+    rows: "auto",
+    areas: '"sidebar main"',
+    gap: "l"
+};
+
+const SIDEBAR_CONTENT_STACKED: PresetLayout = {
+    columns: "1fr",
+    rows: "auto",
+    areas: '"sidebar"\n"main"',
+    gap: "m"
+};
+
+const CARD_GRID: PresetLayout = {
+    columns: "repeat(auto-fit, minmax(240px, 1fr))",
+    rows: "auto",
+    gap: "l"
+};
+
+const DASHBOARD: PresetLayout = {
+    columns: "repeat(12, minmax(0, 1fr))",
+    rows: "auto",
+    gap: "l"
+};
+
+const TWO_COLUMNS: PresetLayout = {
+    columns: "repeat(2, minmax(0, 1fr))",
+    rows: "auto",
+    gap: "xl"
+};
+
+/**
+ * Built-in presets by enumeration key
+ */
+export const LAYOUT_PRESETS: Record<Exclude<LayoutPresetEnum, "none">, LayoutPreset> = {
+    holyGrail: {
+        caption: "Holy grail",
+        base: HOLY_GRAIL,
+        breakpoints: {
+            xs: HOLY_GRAIL_STACKED,
+            sm: HOLY_GRAIL_STACKED,
+            md: {
+                columns: "minmax(160px, 1fr) minmax(0, 3fr)",
+                rows: "auto 1fr auto auto",
+                areas: '"header header"\n"nav main"\n"nav aside"\n"footer footer"',
+                gap: "m"
+            },
+            lg: HOLY_GRAIL
+        }
+    },
+    sidebarContent: {
+        caption: "Sidebar + content",
+        base: SIDEBAR_CONTENT,
+        breakpoints: {
+            xs: SIDEBAR_CONTENT_STACKED,
+            sm: SIDEBAR_CONTENT_STACKED,
+            md: SIDEBAR_CONTENT
+        }
+    },
+    cardGrid: {
+        caption: "Card grid",
+        base: CARD_GRID,
+        breakpoints: {
+            xs: { columns: "1fr", rows: "auto", gap: "m" },
+            sm: CARD_GRID
+        }
+    },
+    dashboard: {
+        caption: "Dashboard (12 columns)",
+        base: DASHBOARD,
+        breakpoints: {
+            xs: { ...DASHBOARD, gap: "s" },
+            sm: DASHBOARD
+        }
+    },
+    twoColumns: {
+        caption: "Two columns",
+        base: TWO_COLUMNS,
+        breakpoints: {
+            xs: { columns: "1fr", rows: "auto", gap: "m" },
+            sm: TWO_COLUMNS
+        }
+    },
+    headerContentFooter: {
+        caption: "Header, content, footer",
+        base: {
+            columns: "1fr",
+            rows: "auto 1fr auto",
+            areas: '"header"\n"main"\n"footer"'
+        },
+        breakpoints: {}
+    }
+};
+
+/**
+ * Get the preset selected on the container
+ *
+ * @param layoutPreset - Value of the Layout Preset property
+ * @returns The preset, or undefined for "none" and unknown values
+ */
+export function getLayoutPreset(layoutPreset: string | undefined): LayoutPreset | undefined {
+    return layoutPreset && layoutPreset !== "none"
+        ? LAYOUT_PRESETS[layoutPreset as Exclude<LayoutPresetEnum, "none">]
+        : undefined;
+}
+
+/**
+ * Fill in the selected preset's values
+ * Only empty properties are filled. Named areas and breakpoints keep their settings,
+ * so the preset's areas and breakpoint layouts apply once they are turned on.
+ *
+ * @param props - Container props (runtime or preview values)
+ * @returns Props with the preset applied, or the same object without a preset
+ */
+export function applyLayoutPreset<T extends { layoutPreset?: LayoutPresetEnum; gapMode?: string }>(props: T): T {
+    const preset = getLayoutPreset(props.layoutPreset);
+    if (!preset) {
+        return props;
+    }
+
+    const result: Record<string, unknown> = { ...props };
+    const fill = (key: string, value: string | undefined): void => {
+        if (value && !safeTrim(result[key] as string | undefined)) {
+            result[key] = value;
+        }
+    };
+    const fillLayout = (prefix: string, layout: PresetLayout): void => {
+        const key = (property: string): string => (prefix ? `${prefix}${property}` : BASE_PROPERTY_KEYS[property]);
+        fill(key("Columns"), layout.columns);
+        fill(key("Rows"), layout.rows);
+        fill(key("Areas"), layout.areas);
+
+        // Separate row or column gaps count as an explicit gap. Outside token mode the
+        // preset's spacing token is filled in as its CSS value
+        if (!safeTrim(result[key("RowGap")] as string) && !safeTrim(result[key("ColumnGap")] as string)) {
+            fill(key("Gap"), props.gapMode === "tokens" ? layout.gap : getGapTokenValue(layout.gap));
+        }
+    };
+
+    fillLayout("", preset.base);
+    (Object.keys(preset.breakpoints) as BreakpointSize[]).forEach(size => {
+        fillLayout(size, preset.breakpoints[size]!);
+    });
+
+    return result as T;
+}
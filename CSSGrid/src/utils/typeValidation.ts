@@ -8,6 +8,7 @@ import {
     JustifySelfEnum,
     AlignSelfEnum,
     RenderAsEnum,
+    PlacementTypeEnum,
     CSSGridContainerProps,
     CSSGridPreviewProps
 } from "../../typings/CSSGridProps";
@@ -137,6 +138,18 @@ export function isRenderAsEnum(value: any): value is RenderAsEnum {
     });
 }
 
+/**
+ * Type guard for PlacementTypeEnum
+ */
+export function isPlacementTypeEnum(value: any): value is PlacementTypeEnum {
+    return isValidEnumValue(value, {
+        auto: "auto",
+        area: "area",
+        coordinates: "coordinates",
+        span: "span"
+    });
+}
+
 /**
  * Validate and cast props to RuntimeGridContainer
  * Ensures type safety at runtime
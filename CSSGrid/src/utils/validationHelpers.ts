@@ -7,6 +7,9 @@
  */
 
 import { CSS_UNITS, CSS_KEYWORDS, CHAR_CODES } from "./constants";
+import { parseBreakpointThresholds } from "./breakpointHelpers";
+import { isNullAreaCell, parseGridLine } from "./gridHelpers";
+import { GAP_TOKEN_NAMES, getGapTokenValue } from "./gapTokenHelpers";
 
 // Types for validation results
 export interface ValidationResult {
@@ -121,8 +124,9 @@ export function validateCssDimension(
 
 /**
  * Validate gap value
+ * In token mode, spacing tokens are valid and raw CSS values are reported
  */
-export function validateGap(value: string | null | undefined, isRequired = false): ValidationResult {
+export function validateGap(value: string | null | undefined, isRequired = false, useTokens = false): ValidationResult {
     if (isEmpty(value)) {
         if (isRequired) {
             return {
@@ -136,6 +140,28 @@ export function validateGap(value: string | null | undefined, isRequired = false
 
     const trimmed = value!.trim();
 
+    if (useTokens) {
+        if (getGapTokenValue(trimmed) !== undefined) {
+            return { isValid: true };
+        }
+
+        const rawValidation = validateGap(trimmed);
+        if (!rawValidation.isValid) {
+            return {
+                isValid: false,
+                error: `Gap must be a spacing token (${GAP_TOKEN_NAMES.join(", ")})`,
+                severity: "error"
+            };
+        }
+        return {
+            isValid: true,
+            warning: `Gap '${trimmed}' is a raw value. Use a spacing token (${GAP_TOKEN_NAMES.join(
+                ", "
+            )}) to follow the theme's spacing scale.`,
+            severity: "warning"
+        };
+    }
+
     // Check gap-specific keywords
     if (CSS_KEYWORDS.gap.includes(trimmed.toLowerCase())) {
         return { isValid: true };
@@ -145,6 +171,56 @@ export function validateGap(value: string | null | undefined, isRequired = false
     return validateCssDimension(value, "Gap", false);
 }
 
+/**
+ * Characters that can end a declaration or rule, open an at-rule or markup, or escape
+ */
+const UNSAFE_CSS_CHARACTERS = [";", "{", "}", "<", ">", "\\", "@"];
+
+/**
+ * Brackets that must be closed in the order they were opened
+ */
+const CLOSING_BRACKETS: Record<string, string> = { "(": ")", "[": "]" };
+
+/**
+ * Check that a value stays inside a single CSS declaration
+ * Values from attributes or expressions are written into the scoped style sheet,
+ * so they must not be able to close the declaration or rule they are placed in
+ *
+ * @param value - Value to check
+ * @returns Error message, or undefined when the value is safe
+ */
+export function getUnsafeCSSValueError(value: string): string | undefined {
+    const openBrackets: string[] = [];
+    let quote = "";
+
+    for (const char of value) {
+        if (UNSAFE_CSS_CHARACTERS.indexOf(char) !== -1) {
+            return `"${char}" is not allowed`;
+        }
+        if (quote) {
+            if (char === quote) {
+                quote = "";
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (CLOSING_BRACKETS[char]) {
+            openBrackets.push(CLOSING_BRACKETS[char]);
+        } else if (char === ")" || char === "]") {
+            if (openBrackets.pop() !== char) {
+                return `unbalanced "${char}"`;
+            }
+        }
+    }
+
+    if (quote) {
+        return `unclosed ${quote}`;
+    }
+    if (openBrackets.length > 0) {
+        return `missing "${openBrackets[openBrackets.length - 1]}"`;
+    }
+    return undefined;
+}
+
 /**
  * Validate grid template (columns/rows)
  */
@@ -165,6 +241,12 @@ export function validateGridTemplate(
     }
 
     const trimmed = template!.trim();
+
+    // Subgrid takes the parent's tracks, optionally followed by line names
+    if (trimmed === "subgrid" || trimmed.startsWith("subgrid ") || trimmed.startsWith("subgrid[")) {
+        return { isValid: true };
+    }
+
     const validKeywords = [
         "auto",
         "min-content",
@@ -244,6 +326,105 @@ export function validateZIndex(value: string | null | undefined): NumericValidat
     };
 }
 
+/**
+ * Validate item order value
+ * Accepts whole numbers, including negative ones
+ */
+export function validateOrder(value: string | null | undefined): NumericValidationResult {
+    if (isEmpty(value)) {
+        return { isValid: true };
+    }
+
+    const trimmed = value!.trim();
+    const numValue = parseInt(trimmed, 10);
+    if (isNaN(numValue) || String(numValue) !== trimmed.replace("+", "")) {
+        return {
+            isValid: false,
+            error: "Order must be a whole number, e.g. -1, 0 or 2",
+            severity: "error"
+        };
+    }
+
+    return { isValid: true, numericValue: numValue };
+}
+
+/**
+ * Validate an aspect-ratio value
+ * Accepts auto, a positive number or a width / height ratio, e.g. 16 / 9
+ */
+export function validateAspectRatio(value: string | null | undefined, propertyName: string): ValidationResult {
+    if (isEmpty(value)) {
+        return { isValid: true };
+    }
+
+    const trimmed = value!.trim();
+    if (trimmed.toLowerCase() === "auto" || (trimmed.startsWith("var(") && trimmed.endsWith(")"))) {
+        return { isValid: true };
+    }
+
+    const parts = trimmed.split("/");
+    const isPositiveNumber = (part: string): boolean => {
+        const text = part.trim();
+        const num = Number(text);
+        return text !== "" && !isNaN(num) && num > 0;
+    };
+
+    if (parts.length <= 2 && parts.every(isPositiveNumber)) {
+        return { isValid: true };
+    }
+
+    return {
+        isValid: false,
+        error: `${propertyName} must be a positive number or a ratio (e.g., 1, 16 / 9, 4/3)`,
+        severity: "error"
+    };
+}
+
+/**
+ * Validate an item's column system span and offset
+ * A span of 0 is valid and leaves the item to its placement type
+ *
+ * @param span - Number of columns the item spans
+ * @param offset - Columns left empty before the item
+ * @param columnCount - Columns of the column system
+ * @param context - Prefix for messages, e.g. "Item 2 MD"
+ */
+export function validateColumnSpan(
+    span: number | null | undefined,
+    offset: number | null | undefined,
+    columnCount: number,
+    context: string
+): ValidationResult {
+    const spanValue = span || 0;
+    const offsetValue = offset || 0;
+
+    if (spanValue < 0 || offsetValue < 0) {
+        return {
+            isValid: false,
+            error: `${context}: Span and offset cannot be negative`,
+            severity: "error"
+        };
+    }
+
+    if (spanValue === 0) {
+        return offsetValue > 0
+            ? { isValid: true, warning: `${context}: Offset is ignored without a span`, severity: "warning" }
+            : { isValid: true };
+    }
+
+    if (spanValue + offsetValue > columnCount) {
+        return {
+            isValid: false,
+            error: `${context}: Span ${spanValue} and offset ${offsetValue} need ${
+                spanValue + offsetValue
+            } columns, but the column system has ${columnCount}`,
+            severity: "error"
+        };
+    }
+
+    return { isValid: true };
+}
+
 /**
  * Validate coordinate value for grid placement
  * Internal helper function
@@ -253,17 +434,9 @@ function isValidCoordinate(value: string | null | undefined): boolean {
         return true;
     }
 
-    const trimmed = value!.trim();
-
-    // Check for negative numbers
-    if (trimmed.startsWith("-")) {
-        const num = parseInt(trimmed.substring(1), 10);
-        return !isNaN(num) && num > 0;
-    }
-
-    // Check for positive numbers
-    const num = parseInt(trimmed, 10);
-    return !isNaN(num) && num > 0;
+    // Line numbers (positive or negative) and line names, optionally with a number ("col 2")
+    const reference = parseGridLine(value!.trim());
+    return reference !== null && !reference.span;
 }
 
 /**
@@ -275,18 +448,12 @@ function isValidSpanValue(value: string | null | undefined): boolean {
         return true;
     }
 
-    const trimmed = value!.trim();
-
-    // Check for "span N" format
-    if (trimmed.startsWith("span ")) {
-        const numPart = trimmed.substring(5).trim();
-        const num = parseInt(numPart, 10);
-        return !isNaN(num) && num > 0;
+    // "span N", "span name", line names and positive numbers
+    const reference = parseGridLine(value!.trim());
+    if (!reference) {
+        return false;
     }
-
-    // Check for plain number
-    const num = parseInt(trimmed, 10);
-    return !isNaN(num) && num > 0;
+    return reference.span || reference.name !== null || reference.count! > 0;
 }
 
 /**
@@ -294,7 +461,7 @@ function isValidSpanValue(value: string | null | undefined): boolean {
  * Internal helper function
  */
 function isValidAreaName(name: string | null | undefined): boolean {
-    if (isEmpty(name) || name === ".") {
+    if (isEmpty(name) || isNullAreaCell(name!)) {
         return true;
     }
 
@@ -398,7 +565,7 @@ export function validateGridTemplateAreas(
             const char = line[i];
             if (char === " " || char === "\t") {
                 if (currentCell) {
-                    cells.push(currentCell);
+                    cells.push(isNullAreaCell(currentCell) ? "." : currentCell);
                     currentCell = "";
                 }
             } else {
@@ -406,7 +573,7 @@ export function validateGridTemplateAreas(
             }
         }
         if (currentCell) {
-            cells.push(currentCell);
+            cells.push(isNullAreaCell(currentCell) ? "." : currentCell);
         }
 
         if (cells.length > 0) {
@@ -428,7 +595,7 @@ export function validateGridTemplateAreas(
     // Validate area names
     for (const row of rowCells) {
         for (const cell of row) {
-            if (cell !== "." && !isValidAreaName(cell)) {
+            if (!isNullAreaCell(cell) && !isValidAreaName(cell)) {
                 return {
                     valid: false,
                     error: `Invalid area name "${cell}". Must start with a letter and contain only letters, numbers, hyphens, and underscores.`
@@ -437,9 +604,118 @@ export function validateGridTemplateAreas(
         }
     }
 
+    // Every named area must be a single filled rectangle
+    const shapeError = getAreaShapeError(rowCells);
+    if (shapeError) {
+        return { valid: false, error: shapeError };
+    }
+
     return { valid: true, lines: rowCells };
 }
 
+/**
+ * Describe a range of tracks, e.g. "row 2" or "columns 1-3"
+ */
+function formatTrackRange(track: string, start: number, end: number): string {
+    return start === end ? `${track} ${start + 1}` : `${track}s ${start + 1}-${end + 1}`;
+}
+
+/**
+ * Find the first named area that does not form a single filled rectangle
+ * The browser drops the whole grid-template-areas declaration for L-shaped or split areas
+ *
+ * @param rows - Area names per row
+ * @returns Error naming the area and the offending cells, or undefined when every area is a rectangle
+ */
+export function getAreaShapeError(rows: string[][]): string | undefined {
+    const bounds: Record<string, { top: number; bottom: number; left: number; right: number }> = {};
+    const names: string[] = [];
+
+    rows.forEach((row, rowIndex) =>
+        row.forEach((cell, columnIndex) => {
+            if (isNullAreaCell(cell)) {
+                return;
+            }
+            const bound = bounds[cell];
+            if (!bound) {
+                bounds[cell] = { top: rowIndex, bottom: rowIndex, left: columnIndex, right: columnIndex };
+                names.push(cell);
+                return;
+            }
+            bound.bottom = Math.max(bound.bottom, rowIndex);
+            bound.left = Math.min(bound.left, columnIndex);
+            bound.right = Math.max(bound.right, columnIndex);
+        })
+    );
+
+    for (const name of names) {
+        const { top, bottom, left, right } = bounds[name];
+        const offendingCells: string[] = [];
+
+        for (let r = top; r <= bottom; r++) {
+            for (let c = left; c <= right; c++) {
+                const cell = rows[r][c];
+                if (cell !== name) {
+                    const content = cell !== undefined ? ` ("${cell}")` : "";
+                    offendingCells.push(`row ${r + 1}, column ${c + 1}${content}`);
+                }
+            }
+        }
+
+        if (offendingCells.length > 0) {
+            const listed = offendingCells.slice(0, 3).join("; ");
+            const more = offendingCells.length > 3 ? ` and ${offendingCells.length - 3} more` : "";
+            return `Area "${name}" must form a single filled rectangle. It spans ${formatTrackRange(
+                "row",
+                top,
+                bottom
+            )} and ${formatTrackRange("column", left, right)}, but these cells are not part of it: ${listed}${more}`;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Check that a line name used in an item's placement exists in the active template
+ * A bare area name also matches its implicit "-start" and "-end" lines
+ *
+ * @param value - Start or end value of the item
+ * @param definedNames - Line names of the axis (see getDefinedLineNames)
+ * @param context - Prefix for the message, e.g. "Item 2 column start"
+ * @returns Warning when the referenced name is not defined
+ */
+export function validateGridLineName(
+    value: string | null | undefined,
+    definedNames: Set<string>,
+    context: string
+): ValidationResult {
+    const reference = isEmpty(value) ? null : parseGridLine(value!.trim());
+    if (!reference || reference.name === null) {
+        return { isValid: true };
+    }
+
+    const name = reference.name;
+    const isAreaName =
+        reference.count === null &&
+        !reference.span &&
+        (definedNames.has(`${name}-start`) || definedNames.has(`${name}-end`));
+    if (definedNames.has(name) || isAreaName) {
+        return { isValid: true };
+    }
+
+    const available = Array.from(definedNames);
+    return {
+        isValid: true,
+        warning: `${context}: Line "${name}" is not defined in the template. ${
+            available.length > 0
+                ? `Available: ${available.join(", ")}`
+                : "Name lines in brackets, e.g. [content-start] 1fr [content-end]"
+        }`,
+        severity: "warning"
+    };
+}
+
 /**
  * Validate item placement properties
  * Returns array of validation results
@@ -518,28 +794,28 @@ export function validateItemPlacement(
             if (!isEmpty(columnStart) && !isValidCoordinate(columnStart)) {
                 results.push({
                     isValid: false,
-                    error: `${context}Invalid column start: must be auto, positive/negative number`,
+                    error: `${context}Invalid column start: must be auto, a positive/negative number or a line name`,
                     severity: "error"
                 });
             }
             if (!isEmpty(columnEnd) && !isValidCoordinate(columnEnd)) {
                 results.push({
                     isValid: false,
-                    error: `${context}Invalid column end: must be auto, positive/negative number`,
+                    error: `${context}Invalid column end: must be auto, a positive/negative number or a line name`,
                     severity: "error"
                 });
             }
             if (!isEmpty(rowStart) && !isValidCoordinate(rowStart)) {
                 results.push({
                     isValid: false,
-                    error: `${context}Invalid row start: must be auto, positive/negative number`,
+                    error: `${context}Invalid row start: must be auto, a positive/negative number or a line name`,
                     severity: "error"
                 });
             }
             if (!isEmpty(rowEnd) && !isValidCoordinate(rowEnd)) {
                 results.push({
                     isValid: false,
-                    error: `${context}Invalid row end: must be auto, positive/negative number`,
+                    error: `${context}Invalid row end: must be auto, a positive/negative number or a line name`,
                     severity: "error"
                 });
             }
@@ -557,14 +833,14 @@ export function validateItemPlacement(
             if (!isEmpty(columnStart) && !isValidSpanValue(columnStart)) {
                 results.push({
                     isValid: false,
-                    error: `${context}Invalid column span: must be auto, number, or 'span N'`,
+                    error: `${context}Invalid column span: must be auto, number, 'span N' or a line name`,
                     severity: "error"
                 });
             }
             if (!isEmpty(rowStart) && !isValidSpanValue(rowStart)) {
                 results.push({
                     isValid: false,
-                    error: `${context}Invalid row span: must be auto, number, or 'span N'`,
+                    error: `${context}Invalid row span: must be auto, number, 'span N' or a line name`,
                     severity: "error"
                 });
             }
@@ -581,3 +857,28 @@ export function validateItemPlacement(
 
     return results;
 }
+
+/**
+ * Validate user-defined breakpoint thresholds (JSON object of minimum widths)
+ * Empty values are valid and keep the default breakpoints
+ */
+export function validateBreakpointThresholds(value: string | null | undefined): ValidationResult {
+    if (isEmpty(value)) {
+        return {
+            isValid: true,
+            info: "No custom breakpoints defined, default breakpoint widths are used",
+            severity: "warning"
+        };
+    }
+
+    const result = parseBreakpointThresholds(value!);
+    if (result.error) {
+        return {
+            isValid: false,
+            error: result.error,
+            severity: "error"
+        };
+    }
+
+    return { isValid: true };
+}
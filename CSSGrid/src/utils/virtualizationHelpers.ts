@@ -0,0 +1,380 @@
+/**
+ * Virtualization Helper Functions
+ *
+ * Windowed virtualization renders only the rows in and around the visible
+ * area of the scroll container. Rows above and below are replaced by spacer
+ * rows of the same height, so the scrollbar stays stable.
+ *
+ * Placeholder virtualization keeps an element for every item and sizes the
+ * placeholders of items that scrolled away to their last measured size.
+ *
+ * Both modes can store the first visible item and scroll offset, so the
+ * grid opens where the user left it when they come back to the page.
+ */
+
+import { CSSProperties } from "react";
+import { ItemSize, ScrollState, WindowMetrics, WindowRange } from "../types/VirtualizationTypes";
+import { safeTrim } from "./stringHelpers";
+import { warnOnce } from "./warningHelpers";
+
+/**
+ * Find the element that scrolls the grid
+ * A configured selector is looked up among the ancestors first, then in the document
+ *
+ * @param element - Grid container element
+ * @param selector - Optional CSS selector of the scroll container
+ * @returns Scrolling element, or null when the page itself scrolls
+ */
+export function getScrollParent(element: HTMLElement, selector?: string): HTMLElement | null {
+    const trimmed = safeTrim(selector);
+    if (trimmed) {
+        try {
+            const configured =
+                element.parentElement?.closest<HTMLElement>(trimmed) || document.querySelector<HTMLElement>(trimmed);
+            if (configured) {
+                return configured;
+            }
+            warnOnce(`CSSGrid: Scroll container "${trimmed}" was not found - using the nearest scrolling ancestor`);
+        } catch (error) {
+            warnOnce(`CSSGrid: Invalid scroll container selector "${trimmed}" - using the nearest scrolling ancestor`);
+        }
+    }
+
+    let parent = element.parentElement;
+    while (parent && parent !== document.body && parent !== document.documentElement) {
+        const overflowY = window.getComputedStyle(parent).overflowY;
+        if (overflowY === "auto" || overflowY === "scroll" || overflowY === "overlay") {
+            return parent;
+        }
+        parent = parent.parentElement;
+    }
+
+    return null;
+}
+
+/**
+ * Get the top of a grid's content box in viewport coordinates
+ */
+function getContentTop(gridElement: HTMLElement): number {
+    const computed = window.getComputedStyle(gridElement);
+    return (
+        gridElement.getBoundingClientRect().top +
+        (parseFloat(computed.borderTopWidth) || 0) +
+        (parseFloat(computed.paddingTop) || 0)
+    );
+}
+
+/**
+ * Get the visible area of the scroll container relative to the grid
+ *
+ * @param gridElement - Grid container element
+ * @param scrollParent - Scrolling element, or null for the page
+ * @returns Distance from the grid's first row to the top of the visible area, and its height
+ */
+export function getScrollViewport(
+    gridElement: HTMLElement,
+    scrollParent: HTMLElement | null
+): { offset: number; height: number } {
+    const viewportTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+    const height = scrollParent ? scrollParent.clientHeight : window.innerHeight;
+    return { offset: viewportTop - getContentTop(gridElement), height };
+}
+
+/**
+ * Scroll the scroll container or the page by a distance
+ */
+function scrollByDistance(scrollParent: HTMLElement | null, distance: number): void {
+    if (scrollParent) {
+        scrollParent.scrollTop += distance;
+    } else {
+        window.scrollBy(0, distance);
+    }
+}
+
+/**
+ * Scroll the least distance needed to bring a row of a windowed grid into view
+ *
+ * @param gridElement - Grid container element
+ * @param scrollParent - Scrolling element, or null for the page
+ * @param row - 0-based row index
+ * @param metrics - Measured grid metrics
+ */
+export function scrollRowIntoView(
+    gridElement: HTMLElement,
+    scrollParent: HTMLElement | null,
+    row: number,
+    metrics: WindowMetrics
+): void {
+    const viewport = getScrollViewport(gridElement, scrollParent);
+    const rowTop = row * (metrics.rowHeight + metrics.rowGap);
+    const rowBottom = rowTop + metrics.rowHeight;
+
+    let distance = 0;
+    if (rowTop < viewport.offset) {
+        distance = rowTop - viewport.offset;
+    } else if (rowBottom > viewport.offset + viewport.height) {
+        distance = rowBottom - (viewport.offset + viewport.height);
+    }
+    if (distance !== 0) {
+        scrollByDistance(scrollParent, distance);
+    }
+}
+
+/**
+ * Parse a resolved track list ("120px 240px") into track sizes
+ */
+function getTrackSizes(trackList: string): number[] {
+    return trackList
+        .split(" ")
+        .map(track => parseFloat(track))
+        .filter(size => !isNaN(size));
+}
+
+/**
+ * Measure the columns and row height of a rendered windowed grid
+ *
+ * @param gridElement - Grid container element
+ * @param firstItemTrack - Index of the first row track holding items (after the top spacer)
+ * @param fallback - Metrics to keep for values that cannot be measured yet
+ * @returns Measured metrics
+ */
+export function measureWindowMetrics(
+    gridElement: HTMLElement,
+    firstItemTrack: number,
+    fallback: WindowMetrics
+): WindowMetrics {
+    const computed = window.getComputedStyle(gridElement);
+    const columns = getTrackSizes(computed.gridTemplateColumns);
+    const rows = getTrackSizes(computed.gridTemplateRows);
+    const rowHeight = rows[firstItemTrack];
+
+    return {
+        columnCount: columns.length || fallback.columnCount,
+        rowHeight: rowHeight > 0 ? rowHeight : fallback.rowHeight,
+        rowGap: parseFloat(computed.rowGap) || 0
+    };
+}
+
+/**
+ * Get the rows to render for the current scroll position
+ *
+ * @param offset - Distance from the top of the grid's first row to the top of the visible area
+ * @param viewportHeight - Height of the visible area
+ * @param metrics - Measured grid metrics
+ * @param rowCount - Total number of rows
+ * @param bufferRows - Extra rows to render above and below the visible area
+ * @returns Range of rows to render
+ */
+export function getVisibleRowRange(
+    offset: number,
+    viewportHeight: number,
+    metrics: WindowMetrics,
+    rowCount: number,
+    bufferRows: number
+): WindowRange {
+    const lastIndex = Math.max(0, rowCount - 1);
+    const rowPitch = Math.max(1, metrics.rowHeight + metrics.rowGap);
+    const firstVisible = Math.floor(Math.max(0, offset) / rowPitch);
+    const lastVisible = Math.ceil(Math.max(0, offset + viewportHeight) / rowPitch);
+    const firstRow = Math.min(lastIndex, Math.max(0, firstVisible - bufferRows));
+
+    return {
+        firstRow,
+        lastRow: Math.min(lastIndex, Math.max(firstRow, lastVisible + bufferRows))
+    };
+}
+
+/**
+ * Get the height of a spacer row that stands in for a number of rows
+ * The spacer is a track itself, so one row gap is already added by the grid
+ *
+ * @param rows - Number of rows the spacer replaces
+ * @param metrics - Measured grid metrics
+ * @returns Spacer height in pixels, 0 when no rows are replaced
+ */
+export function getSpacerHeight(rows: number, metrics: WindowMetrics): number {
+    if (rows <= 0) {
+        return 0;
+    }
+    return Math.max(0, rows * (metrics.rowHeight + metrics.rowGap) - metrics.rowGap);
+}
+
+/**
+ * Measure the border-box height of a rendered item
+ *
+ * @param element - Grid item element
+ * @returns Block size in pixels
+ */
+export function measureItemSize(element: Element): ItemSize {
+    return { blockSize: element.getBoundingClientRect().height };
+}
+
+/**
+ * Get the style that reserves an item's measured height on its placeholder
+ * Only a minimum height is set, so the placeholder still fills its track and
+ * follows the container when it is resized
+ *
+ * @param size - Last measured size of the item, if any
+ * @returns Size style, empty when the item was never measured
+ */
+export function getPlaceholderSizeStyle(size: ItemSize | undefined): CSSProperties {
+    if (!size) {
+        return {};
+    }
+    return { minBlockSize: `${size.blockSize}px` };
+}
+
+/**
+ * Get the style that keeps a windowed item in its own row while that row is not rendered
+ * The item is taken out of the grid flow and laid over the spacer where its row would be,
+ * so the rendered rows keep their auto placement
+ *
+ * @param position - Position of the item among the shown items
+ * @param metrics - Measured grid metrics
+ * @returns Absolute position and size of the item's cell
+ */
+export function getDetachedItemStyle(position: number, metrics: WindowMetrics): CSSProperties {
+    const columnCount = Math.max(1, metrics.columnCount);
+    const row = Math.floor(position / columnCount);
+    const column = position % columnCount;
+
+    return {
+        position: "absolute",
+        insetBlockStart: `${row * (metrics.rowHeight + metrics.rowGap)}px`,
+        insetInlineStart: `${(column / columnCount) * 100}%`,
+        inlineSize: `${100 / columnCount}%`,
+        blockSize: `${metrics.rowHeight}px`
+    };
+}
+
+/**
+ * Capture the scroll position of a virtualized grid
+ * The first item whose bottom edge is below the top of the visible area counts as the first visible item
+ *
+ * @param gridElement - Grid container element
+ * @param scrollParent - Scrolling element, or null for the page
+ * @returns Scroll state, or null when no item is rendered
+ */
+export function captureScrollState(gridElement: HTMLElement, scrollParent: HTMLElement | null): ScrollState | null {
+    const viewportTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+    const itemElements = Array.from(gridElement.querySelectorAll<HTMLElement>(":scope > [data-grid-index]"));
+    const firstVisible = itemElements.find(element => element.getBoundingClientRect().bottom > viewportTop);
+
+    if (!firstVisible) {
+        return null;
+    }
+
+    return {
+        firstIndex: parseInt(firstVisible.getAttribute("data-grid-index") || "0", 10),
+        itemOffset: firstVisible.getBoundingClientRect().top - viewportTop,
+        scrollOffset: Math.max(0, getScrollViewport(gridElement, scrollParent).offset)
+    };
+}
+
+/**
+ * Scroll a virtualized grid back to a stored position
+ * Aligns the stored first item when it is rendered, otherwise restores the stored offset
+ *
+ * @param gridElement - Grid container element
+ * @param scrollParent - Scrolling element, or null for the page
+ * @param state - Stored scroll state
+ */
+export function restoreScrollState(
+    gridElement: HTMLElement,
+    scrollParent: HTMLElement | null,
+    state: ScrollState
+): void {
+    const viewportTop = scrollParent ? scrollParent.getBoundingClientRect().top : 0;
+    const itemElement = gridElement.querySelector<HTMLElement>(`:scope > [data-grid-index="${state.firstIndex}"]`);
+
+    const distance = itemElement
+        ? itemElement.getBoundingClientRect().top - viewportTop - state.itemOffset
+        : state.scrollOffset - getScrollViewport(gridElement, scrollParent).offset;
+
+    if (distance !== 0) {
+        scrollByDistance(scrollParent, distance);
+    }
+}
+
+/**
+ * Parse a stored scroll state
+ *
+ * @param value - JSON string from session storage or the scroll state attribute
+ * @returns Parsed state, null when the value is empty or invalid
+ */
+export function parseScrollState(value: string | null | undefined): ScrollState | null {
+    const trimmed = safeTrim(value ?? undefined);
+    if (!trimmed) {
+        return null;
+    }
+
+    let parsed: Partial<ScrollState> | null;
+    try {
+        parsed = JSON.parse(trimmed);
+    } catch (error) {
+        console.warn("CSSGrid: Ignoring stored scroll position - value is not valid JSON");
+        return null;
+    }
+
+    if (
+        !parsed ||
+        typeof parsed.firstIndex !== "number" ||
+        !Number.isInteger(parsed.firstIndex) ||
+        parsed.firstIndex < 0 ||
+        typeof parsed.itemOffset !== "number" ||
+        typeof parsed.scrollOffset !== "number"
+    ) {
+        console.warn("CSSGrid: Ignoring stored scroll position - expected firstIndex, itemOffset and scrollOffset");
+        return null;
+    }
+
+    return { firstIndex: parsed.firstIndex, itemOffset: parsed.itemOffset, scrollOffset: parsed.scrollOffset };
+}
+
+/**
+ * Serialize a scroll state for storage
+ * Offsets are rounded to whole pixels to keep the stored value short
+ *
+ * @param state - Scroll state to serialize
+ * @returns JSON string
+ */
+export function serializeScrollState(state: ScrollState): string {
+    return JSON.stringify({
+        firstIndex: state.firstIndex,
+        itemOffset: Math.round(state.itemOffset),
+        scrollOffset: Math.round(state.scrollOffset)
+    });
+}
+
+/**
+ * Get the session storage key for a grid's scroll state
+ *
+ * @param widgetKey - Configured key or widget name
+ * @returns Storage key
+ */
+export function getScrollStorageKey(widgetKey: string): string {
+    return `css-grid:scroll:${widgetKey}`;
+}
+
+/**
+ * Read a value from session storage
+ * Storage can be unavailable (e.g. blocked by privacy settings), which is treated as empty
+ */
+export function readSessionValue(key: string): string | null {
+    try {
+        return window.sessionStorage.getItem(key);
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Write a value to session storage, ignoring storage that is unavailable or full
+ */
+export function writeSessionValue(key: string, value: string): void {
+    try {
+        window.sessionStorage.setItem(key, value);
+    } catch (error) {
+        console.warn("CSSGrid: Could not store the scroll position - session storage is unavailable");
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * Item Visibility Helpers
+ *
+ * Decides whether a grid item is shown at the active breakpoint. Items can be
+ * hidden by their visible expression, by a per-breakpoint visible expression or
+ * by the static per-breakpoint Hidden flag. Hidden items are left out of
+ * auto-placement and the ARIA counts.
+ */
+
+import { DynamicValue } from "mendix";
+import { RuntimeGridItem } from "../types/ConditionalTypes";
+import { BreakpointSize } from "../types/BreakpointTypes";
+
+/**
+ * Check whether an optional visibility expression evaluates to false
+ * Expressions that are still loading keep the item visible
+ */
+function isExpressionFalse(expression: DynamicValue<boolean> | undefined): boolean {
+    return expression?.status === "available" && expression.value === false;
+}
+
+/**
+ * Check whether an item is shown according to its visibility expressions
+ * Items hidden this way are not rendered at all
+ *
+ * @param item - Runtime grid item
+ * @param breakpoint - Active breakpoint size
+ * @param enableBreakpoints - Whether the container uses breakpoints
+ * @returns False when the item's visible expression, or the one for the active breakpoint, is false
+ */
+export function isItemVisibleByExpression(
+    item: RuntimeGridItem,
+    breakpoint: BreakpointSize,
+    enableBreakpoints: boolean
+): boolean {
+    if (isExpressionFalse(item.visible)) {
+        return false;
+    }
+    if (enableBreakpoints && item.enableResponsive) {
+        return !isExpressionFalse(item[`${breakpoint}Visible` as keyof RuntimeGridItem] as DynamicValue<boolean>);
+    }
+    return true;
+}
+
+/**
+ * Check whether an item is hidden at a breakpoint by an expression or its static Hidden flag
+ *
+ * @param item - Runtime grid item
+ * @param breakpoint - Active breakpoint size
+ * @param enableBreakpoints - Whether the container uses breakpoints
+ * @returns True when the item takes no cell at the breakpoint
+ */
+export function isItemHiddenAtBreakpoint(
+    item: RuntimeGridItem,
+    breakpoint: BreakpointSize,
+    enableBreakpoints: boolean
+): boolean {
+    if (!isItemVisibleByExpression(item, breakpoint, enableBreakpoints)) {
+        return true;
+    }
+    return !!(enableBreakpoints && item.enableResponsive && item[`${breakpoint}Hidden` as keyof RuntimeGridItem]);
+}
@@ -0,0 +1,25 @@
+/**
+ * Warning Helper Functions
+ *
+ * Runtime configuration problems are logged to the console. Most of them are
+ * found while rendering, so each message is only logged the first time it
+ * comes up instead of on every render.
+ */
+
+/**
+ * Messages that were already logged on this page
+ */
+const loggedWarnings = new Set<string>();
+
+/**
+ * Log a warning the first time it comes up
+ *
+ * @param message - Warning to log
+ */
+export function warnOnce(message: string): void {
+    if (loggedWarnings.has(message)) {
+        return;
+    }
+    loggedWarnings.add(message);
+    console.warn(message);
+}